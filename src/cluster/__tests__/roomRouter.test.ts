@@ -0,0 +1,315 @@
+import { EventEmitter } from 'events';
+import { RedisClient, RedisMessageBus } from '../redisMessageBus';
+import { RoomRouter } from '../roomRouter';
+import { MemoryRoomStore } from '../../stores/memoryRoomStore';
+import { ReplicatedRoomStore } from '../../stores/replicatedRoomStore';
+import { Room } from '../../types';
+
+// Stands in for a Redis server's pub/sub: messages reach every subscribed
+// client asynchronously, in the order they were published
+class FakeRedisServer {
+  private subscriptions: Map<string, Set<FakeRedisClient>> = new Map();
+
+  publish(channel: string, message: string): number {
+    const clients = Array.from(this.subscriptions.get(channel) || []);
+    clients.forEach(client => setImmediate(() => client.deliver(channel, message)));
+    return clients.length;
+  }
+
+  subscribe(channel: string, client: FakeRedisClient): void {
+    if (!this.subscriptions.has(channel)) {
+      this.subscriptions.set(channel, new Set());
+    }
+    this.subscriptions.get(channel)?.add(client);
+  }
+
+  disconnect(client: FakeRedisClient): void {
+    this.subscriptions.forEach(clients => clients.delete(client));
+  }
+}
+
+class FakeRedisClient implements RedisClient {
+  private emitter = new EventEmitter();
+
+  constructor(private server: FakeRedisServer) {}
+
+  async publish(channel: string, message: string): Promise<number> {
+    return this.server.publish(channel, message);
+  }
+
+  async subscribe(channel: string): Promise<void> {
+    this.server.subscribe(channel, this);
+  }
+
+  on(event: 'message' | 'error', listener: ((channel: string, message: string) => void) | ((error: Error) => void)): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  async quit(): Promise<void> {
+    this.server.disconnect(this);
+  }
+
+  deliver(channel: string, message: string): void {
+    this.emitter.emit('message', channel, message);
+  }
+}
+
+// Let every queued message be delivered, including the ones sent in reply
+const settle = async (): Promise<void> => {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+const createRoom = (id: string, name: string): Room => ({
+  id,
+  name,
+  facilitatorId: 'user-1',
+  users: new Map(),
+  stories: [],
+  currentStoryId: null,
+  deck: { type: 'fibonacci', cards: ['1', '2', '3', '5', '8'] },
+  settings: { autoRevealWhenAllVoted: false },
+  votingRevealed: false,
+  estimationStarted: false,
+  roundStartedAt: new Date(),
+  timer: null,
+  history: [],
+  auditLog: [],
+  bans: [],
+  webhooks: [],
+  passcodeHash: null,
+  invites: [],
+  viewTokenNonce: 'nonce',
+  createdAt: new Date(),
+  lastActivity: new Date()
+});
+
+describe('RedisMessageBus', () => {
+  const buses: RedisMessageBus[] = [];
+
+  afterEach(async () => {
+    await Promise.all(buses.splice(0).map(bus => bus.close()));
+  });
+
+  it('delivers messages to the subscribers of every instance, including the publisher', async () => {
+    const server = new FakeRedisServer();
+    const a = new RedisMessageBus(() => new FakeRedisClient(server));
+    const b = new RedisMessageBus(() => new FakeRedisClient(server));
+    buses.push(a, b);
+
+    const received: string[] = [];
+    a.subscribe('news', message => received.push(`a:${message}`));
+    b.subscribe('news', message => received.push(`b:${message}`));
+    b.subscribe('other', message => received.push(`other:${message}`));
+    await settle();
+
+    a.publish('news', 'first');
+    a.publish('news', 'second');
+    await settle();
+
+    expect(received).toEqual(['a:first', 'b:first', 'a:second', 'b:second']);
+  });
+
+  it('keeps delivering after a handler throws', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const server = new FakeRedisServer();
+    const bus = new RedisMessageBus(() => new FakeRedisClient(server));
+    buses.push(bus);
+
+    const received: string[] = [];
+    bus.subscribe('news', () => {
+      throw new Error('broken handler');
+    });
+    bus.subscribe('news', message => received.push(message));
+    await settle();
+
+    bus.publish('news', 'hello');
+    await settle();
+
+    expect(received).toEqual(['hello']);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('RoomRouter', () => {
+  const buses: RedisMessageBus[] = [];
+
+  afterEach(async () => {
+    await Promise.all(buses.splice(0).map(bus => bus.close()));
+  });
+
+  // Two instances sharing one stand-in Redis server
+  const createCluster = async () => {
+    const server = new FakeRedisServer();
+    const busA = new RedisMessageBus(() => new FakeRedisClient(server));
+    const busB = new RedisMessageBus(() => new FakeRedisClient(server));
+    buses.push(busA, busB);
+
+    // Subscriptions have to be in place before the instances say hello
+    const timings = { settleMs: 0, commandTimeoutMs: 200 };
+    const a = new RoomRouter(busA, 'instance-a', timings);
+    await settle();
+    const b = new RoomRouter(busB, 'instance-b', timings);
+    await settle();
+
+    return { a, b, busA, busB };
+  };
+
+  const findRoomOwnedBy = (router: RoomRouter): string => {
+    for (let i = 0; ; i++) {
+      if (router.owns(`ROOM${i}`)) {
+        return `ROOM${i}`;
+      }
+    }
+  };
+
+  it('agrees on a single owner for every room', async () => {
+    const { a, b } = await createCluster();
+
+    const roomIds = Array.from({ length: 20 }, (_, i) => `ROOM${i}`);
+    roomIds.forEach(roomId => {
+      expect(a.ownerOf(roomId)).toBe(b.ownerOf(roomId));
+      expect(a.owns(roomId)).not.toBe(b.owns(roomId));
+    });
+    expect(roomIds.some(roomId => a.owns(roomId))).toBe(true);
+    expect(roomIds.some(roomId => b.owns(roomId))).toBe(true);
+  });
+
+  it('owns every room when running alone', () => {
+    const server = new FakeRedisServer();
+    const bus = new RedisMessageBus(() => new FakeRedisClient(server));
+    buses.push(bus);
+    const router = new RoomRouter(bus, 'instance-a');
+
+    expect(router.owns('ROOM1')).toBe(true);
+    expect(router.owns('ROOM2')).toBe(true);
+  });
+
+  it('runs concurrent commands from every instance on the owner, one after another', async () => {
+    const { a, b } = await createCluster();
+
+    // Each instance keeps its own tally; only the owner's should change
+    const tallies = { 'instance-a': [] as string[], 'instance-b': [] as string[] };
+    const voteOnA = a.route('vote', (roomId: string, name: string) => {
+      tallies['instance-a'].push(name);
+      return tallies['instance-a'].length;
+    });
+    const voteOnB = b.route('vote', (roomId: string, name: string) => {
+      tallies['instance-b'].push(name);
+      return tallies['instance-b'].length;
+    });
+
+    const roomId = findRoomOwnedBy(b);
+    const counts = await Promise.all([
+      voteOnA(roomId, 'ann'),
+      voteOnB(roomId, 'bob'),
+      voteOnA(roomId, 'cat'),
+      voteOnB(roomId, 'dan')
+    ]);
+
+    expect(tallies['instance-a']).toEqual([]);
+    expect(tallies['instance-b'].sort()).toEqual(['ann', 'bob', 'cat', 'dan']);
+    expect(counts.sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it('passes errors thrown on the owner back to the caller', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { a, b } = await createCluster();
+
+    const failOnA = a.route('fail', (): void => {
+      throw new Error('Nope');
+    });
+    b.route('fail', (): void => {
+      throw new Error('Nope');
+    });
+
+    await expect(failOnA(findRoomOwnedBy(b))).rejects.toThrow('Nope');
+    errorSpy.mockRestore();
+  });
+
+  it('gives up on commands the owner does not answer', async () => {
+    const { a, b, busB } = await createCluster();
+    const pingOnA = a.route('ping', (): string => 'pong');
+    const roomId = findRoomOwnedBy(b);
+    await busB.close();
+
+    await expect(pingOnA(roomId)).rejects.toThrow('timed out');
+  });
+
+  it('hands the rooms of an instance that leaves to the others', async () => {
+    const { a, b } = await createCluster();
+    const roomId = findRoomOwnedBy(b);
+
+    b.start();
+    b.stop();
+    await settle();
+
+    expect(a.owns(roomId)).toBe(true);
+  });
+});
+
+describe('ReplicatedRoomStore', () => {
+  const buses: RedisMessageBus[] = [];
+
+  afterEach(async () => {
+    await Promise.all(buses.splice(0).map(bus => bus.close()));
+  });
+
+  it('copies the owner\'s changes to other instances and ignores changes made elsewhere', async () => {
+    const server = new FakeRedisServer();
+    const busA = new RedisMessageBus(() => new FakeRedisClient(server));
+    const busB = new RedisMessageBus(() => new FakeRedisClient(server));
+    buses.push(busA, busB);
+
+    const routerA = new RoomRouter(busA, 'instance-a', { settleMs: 0 });
+    await settle();
+    const routerB = new RoomRouter(busB, 'instance-b', { settleMs: 0 });
+    await settle();
+
+    const storeA = new ReplicatedRoomStore(new MemoryRoomStore(), busA, routerA);
+    const storeB = new ReplicatedRoomStore(new MemoryRoomStore(), busB, routerB);
+    await settle();
+
+    let roomId = '';
+    for (let i = 0; !roomId; i++) {
+      roomId = routerA.owns(`ROOM${i}`) ? `ROOM${i}` : '';
+    }
+
+    storeA.save(createRoom(roomId, 'Planning'));
+    await settle();
+    expect(storeB.get(roomId)?.name).toBe('Planning');
+
+    // A stray write on an instance that does not own the room stays local
+    storeB.save(createRoom(roomId, 'Overwritten'));
+    storeA.save(createRoom(roomId, 'Refinement'));
+    await settle();
+    expect(storeA.get(roomId)?.name).toBe('Refinement');
+    expect(storeB.get(roomId)?.name).toBe('Refinement');
+
+    storeA.delete(roomId);
+    await settle();
+    expect(storeB.has(roomId)).toBe(false);
+  });
+
+  it('sends a starting instance the rooms that already exist', async () => {
+    const server = new FakeRedisServer();
+    const busA = new RedisMessageBus(() => new FakeRedisClient(server));
+    const busB = new RedisMessageBus(() => new FakeRedisClient(server));
+    buses.push(busA, busB);
+
+    const routerA = new RoomRouter(busA, 'instance-a', { settleMs: 0 });
+    const storeA = new ReplicatedRoomStore(new MemoryRoomStore(), busA, routerA);
+    await settle();
+    storeA.save(createRoom('ROOM1', 'Planning'));
+
+    // Not yet settled, so the new instance owns nothing while it catches up
+    const routerB = new RoomRouter(busB, 'instance-b');
+    const storeB = new ReplicatedRoomStore(new MemoryRoomStore(), busB, routerB);
+    await settle();
+
+    expect(routerB.owns('ROOM1')).toBe(false);
+    expect(storeB.get('ROOM1')?.name).toBe('Planning');
+  });
+});
@@ -0,0 +1,36 @@
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { MessageBus, InProcessMessageBus } from './messageBus';
+import { RedisMessageBus } from './redisMessageBus';
+import { RoomBroadcaster, userChannel } from './roomBroadcaster';
+import { RoomRouter } from './roomRouter';
+
+export { MessageBus, InProcessMessageBus, RedisMessageBus, RoomBroadcaster, RoomRouter, userChannel };
+
+// Identifies this process on the message bus
+export const instanceId = uuidv4();
+
+// MESSAGE_BUS=local (default) serves everything from a single process,
+// MESSAGE_BUS=redis shares rooms, commands and broadcasts through REDIS_URL
+const createMessageBus = (): MessageBus => {
+  const type = process.env.MESSAGE_BUS || 'local';
+
+  switch (type) {
+    case 'local':
+      return new InProcessMessageBus();
+    case 'redis': {
+      const url = process.env.REDIS_URL || 'redis://localhost:6379';
+      return new RedisMessageBus(() => new Redis(url));
+    }
+    default:
+      throw new Error(`Unknown MESSAGE_BUS '${type}' - expected 'local' or 'redis'`);
+  }
+};
+
+export const isClustered = (): boolean => (process.env.MESSAGE_BUS || 'local') !== 'local';
+
+export const messageBus = createMessageBus();
+
+export const roomBroadcaster = new RoomBroadcaster(messageBus, instanceId);
+
+export const roomRouter = new RoomRouter(messageBus, instanceId);
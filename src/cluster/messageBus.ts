@@ -0,0 +1,33 @@
+import { EventEmitter } from 'events';
+
+export type MessageHandler = (message: string) => void;
+
+// Pub/sub channel between server instances. Messages are delivered to every
+// subscriber, including the instance that published them.
+export interface MessageBus {
+  publish(channel: string, message: string): void;
+  subscribe(channel: string, handler: MessageHandler): void;
+  close(): Promise<void>;
+}
+
+// Delivers messages synchronously within this process; the default for a
+// single instance
+export class InProcessMessageBus implements MessageBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(channel: string, message: string): void {
+    this.emitter.emit(channel, message);
+  }
+
+  subscribe(channel: string, handler: MessageHandler): void {
+    this.emitter.on(channel, handler);
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
@@ -0,0 +1,59 @@
+import { MessageBus, MessageHandler } from './messageBus';
+
+// The parts of a Redis client the bus uses. An ioredis client fits, and so
+// does an in-memory stand-in, e.g. in tests.
+export interface RedisClient {
+  publish(channel: string, message: string): Promise<unknown>;
+  subscribe(channel: string): Promise<unknown>;
+  on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  quit(): Promise<unknown>;
+}
+
+export type RedisClientFactory = () => RedisClient;
+
+export class RedisMessageBus implements MessageBus {
+  private publisher: RedisClient;
+  private subscriber: RedisClient;
+  private handlers: Map<string, Set<MessageHandler>> = new Map();
+
+  constructor(createClient: RedisClientFactory) {
+    // A connection in subscriber mode cannot publish, so use one of each
+    this.publisher = createClient();
+    this.subscriber = createClient();
+
+    this.publisher.on('error', error => console.error('Redis publisher error:', error));
+    this.subscriber.on('error', error => console.error('Redis subscriber error:', error));
+
+    this.subscriber.on('message', (channel: string, message: string) => {
+      this.handlers.get(channel)?.forEach(handler => {
+        try {
+          handler(message);
+        } catch (error) {
+          console.error(`Error handling message on ${channel}:`, error);
+        }
+      });
+    });
+  }
+
+  publish(channel: string, message: string): void {
+    this.publisher.publish(channel, message).catch(error => {
+      console.error(`Failed to publish to ${channel}:`, error);
+    });
+  }
+
+  subscribe(channel: string, handler: MessageHandler): void {
+    if (!this.handlers.has(channel)) {
+      this.handlers.set(channel, new Set());
+      this.subscriber.subscribe(channel).catch(error => {
+        console.error(`Failed to subscribe to ${channel}:`, error);
+      });
+    }
+    this.handlers.get(channel)?.add(handler);
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+  }
+}
@@ -0,0 +1,77 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { MessageBus } from './messageBus';
+import { ServerEventName, ServerEventPayload } from '../types';
+
+const BROADCAST_CHANNEL = 'spp:broadcast';
+
+type BroadcastMessage =
+  | { origin: string; type: 'emit'; target: string; event: ServerEventName; data: unknown; exceptSocketId?: string }
+  | { origin: string; type: 'leave'; target: string; roomId: string };
+
+export type RoomEventListener = (roomId: string, event: ServerEventName, data: unknown) => void;
+
+// Every socket joins a personal socket.io room so a user can be reached on
+// whichever instance their sockets are connected to
+export const userChannel = (userId: string): string => `user:${userId}`;
+
+// Emits room events to this instance's sockets straight away and relays them
+// through the message bus to the sockets connected to other instances
+export class RoomBroadcaster {
+  private io: SocketIOServer | null = null;
+  private listeners: RoomEventListener[] = [];
+
+  constructor(private bus: MessageBus, private instanceId: string) {
+    this.bus.subscribe(BROADCAST_CHANNEL, raw => {
+      const message: BroadcastMessage = JSON.parse(raw);
+      if (message.origin !== this.instanceId) {
+        this.applyLocally(message);
+      }
+    });
+  }
+
+  attach(io: SocketIOServer): void {
+    this.io = io;
+  }
+
+  // Hear every event sent to a room on any instance, e.g. to feed clients
+  // that are not socket.io connections
+  onRoomEvent(listener: RoomEventListener): void {
+    this.listeners.push(listener);
+  }
+
+  toRoom<E extends ServerEventName>(roomId: string, event: E, data: ServerEventPayload<E>, exceptSocketId?: string): void {
+    this.send({ origin: this.instanceId, type: 'emit', target: roomId, event, data, exceptSocketId });
+  }
+
+  toUser<E extends ServerEventName>(userId: string, event: E, data: ServerEventPayload<E>): void {
+    this.send({ origin: this.instanceId, type: 'emit', target: userChannel(userId), event, data });
+  }
+
+  // Take all of a user's sockets out of a room so they stop receiving its events
+  removeUserFromRoom(userId: string, roomId: string): void {
+    this.send({ origin: this.instanceId, type: 'leave', target: userChannel(userId), roomId });
+  }
+
+  private send(message: BroadcastMessage): void {
+    this.applyLocally(message);
+    this.bus.publish(BROADCAST_CHANNEL, JSON.stringify(message));
+  }
+
+  private applyLocally(message: BroadcastMessage): void {
+    if (message.type === 'emit' && !message.target.startsWith(userChannel(''))) {
+      this.listeners.forEach(listener => listener(message.target, message.event, message.data));
+    }
+
+    if (!this.io) {
+      return;
+    }
+
+    if (message.type === 'leave') {
+      this.io.in(message.target).socketsLeave(message.roomId);
+    } else if (message.exceptSocketId) {
+      this.io.to(message.target).except(message.exceptSocketId).emit(message.event, message.data);
+    } else {
+      this.io.to(message.target).emit(message.event, message.data);
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { MessageBus } from './messageBus';
+
+const MEMBERS_CHANNEL = 'spp:instances';
+const commandChannel = (instanceId: string): string => `spp:commands:${instanceId}`;
+const replyChannel = (instanceId: string): string => `spp:replies:${instanceId}`;
+
+type MemberMessage =
+  | { type: 'hello' | 'heartbeat'; instanceId: string; uptimeMs: number }
+  | { type: 'leave'; instanceId: string };
+
+interface CommandRequest {
+  requestId: string;
+  origin: string;
+  name: string;
+  roomId: string;
+  args: unknown[];
+}
+
+type CommandReply =
+  | { requestId: string; success: true; result: unknown }
+  | { requestId: string; success: false; error: string };
+
+interface Member {
+  lastSeen: number;
+  // Instances only take over rooms once every other instance has heard of them
+  eligibleAt: number;
+}
+
+interface PendingCommand {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+export interface RoomRouterTimings {
+  heartbeatMs: number;
+  // How long an instance may miss heartbeats before its rooms move elsewhere
+  memberTimeoutMs: number;
+  settleMs: number;
+  commandTimeoutMs: number;
+}
+
+const DEFAULT_TIMINGS: RoomRouterTimings = {
+  heartbeatMs: 2000,
+  memberTimeoutMs: 6000,
+  settleMs: 4000,
+  commandTimeoutMs: 5000
+};
+
+// Gives every room a single writer. The live instances agree on an owner for
+// each room by rendezvous hashing, and commands for a room are forwarded to
+// its owner and run there one at a time, so concurrent changes made through
+// different instances are applied in turn instead of overwriting each other.
+// Results travel back as JSON. On its own an instance owns every room.
+export class RoomRouter {
+  private handlers: Map<string, (roomId: string, args: unknown[]) => unknown> = new Map();
+  private members: Map<string, Member> = new Map();
+  private pending: Map<string, PendingCommand> = new Map();
+  private ownershipListeners: Set<() => void> = new Set();
+  private interval: NodeJS.Timeout | null = null;
+  private readonly startedAt = Date.now();
+  private readonly timings: RoomRouterTimings;
+  // The instances rooms were shared between when last checked
+  private owners = '';
+
+  constructor(private bus: MessageBus, readonly instanceId: string, timings: Partial<RoomRouterTimings> = {}) {
+    this.timings = { ...DEFAULT_TIMINGS, ...timings };
+
+    this.bus.subscribe(MEMBERS_CHANNEL, raw => this.handleMemberMessage(JSON.parse(raw)));
+    this.bus.subscribe(commandChannel(this.instanceId), raw => this.handleCommand(JSON.parse(raw)));
+    this.bus.subscribe(replyChannel(this.instanceId), raw => this.handleReply(JSON.parse(raw)));
+
+    // Running instances answer with a heartbeat, so this one learns about
+    // them before it owns anything
+    this.publishMember({ type: 'hello', instanceId: this.instanceId, uptimeMs: 0 });
+    this.owners = this.candidates().join(',');
+  }
+
+  start(): void {
+    this.stop();
+    this.interval = setInterval(() => {
+      this.publishMember({ type: 'heartbeat', instanceId: this.instanceId, uptimeMs: Date.now() - this.startedAt });
+      this.checkOwners();
+    }, this.timings.heartbeatMs);
+  }
+
+  // Hand this instance's rooms to the others straight away
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      this.publishMember({ type: 'leave', instanceId: this.instanceId });
+    }
+  }
+
+  // Make a command that runs on the owner of the room given as its first argument
+  route<A extends unknown[], T>(name: string, handler: (roomId: string, ...args: A) => T): (roomId: string, ...args: A) => Promise<T> {
+    this.handlers.set(name, (roomId, args) => handler(roomId, ...(args as A)));
+    return (roomId, ...args) => this.run<T>(name, roomId, args);
+  }
+
+  owns(roomId: string): boolean {
+    return this.ownerOf(roomId) === this.instanceId;
+  }
+
+  ownerOf(roomId: string): string {
+    return this.candidates().reduce((best, id) => {
+      const score = this.score(id, roomId);
+      const bestScore = this.score(best, roomId);
+      return score > bestScore || (score === bestScore && id < best) ? id : best;
+    });
+  }
+
+  // Called when rooms may have moved between instances, e.g. to pick up the
+  // timers of rooms this instance has taken over
+  onOwnershipChange(listener: () => void): void {
+    this.ownershipListeners.add(listener);
+  }
+
+  private run<T>(name: string, roomId: string, args: unknown[]): Promise<T> {
+    const owner = this.ownerOf(roomId);
+    if (owner === this.instanceId) {
+      return new Promise<T>(resolve => resolve(this.execute(name, roomId, args) as T));
+    }
+
+    const requestId = uuidv4();
+    return new Promise<T>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error(`Command ${name} for room ${roomId} timed out on instance ${owner}`));
+      }, this.timings.commandTimeoutMs);
+
+      this.pending.set(requestId, { resolve: result => resolve(result as T), reject, timeout });
+      const request: CommandRequest = { requestId, origin: this.instanceId, name, roomId, args };
+      this.bus.publish(commandChannel(owner), JSON.stringify(request));
+    });
+  }
+
+  private execute(name: string, roomId: string, args: unknown[]): unknown {
+    const handler = this.handlers.get(name);
+    if (!handler) {
+      throw new Error(`Unknown command ${name}`);
+    }
+    return handler(roomId, args);
+  }
+
+  private handleCommand(request: CommandRequest): void {
+    let reply: CommandReply;
+    try {
+      // Room changes are published before the reply, so the caller's copy of
+      // the room is up to date by the time its command completes
+      reply = { requestId: request.requestId, success: true, result: this.execute(request.name, request.roomId, request.args) };
+    } catch (error) {
+      console.error(`Error running ${request.name} for room ${request.roomId}:`, error);
+      reply = { requestId: request.requestId, success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    this.bus.publish(replyChannel(request.origin), JSON.stringify(reply));
+  }
+
+  private handleReply(reply: CommandReply): void {
+    const pending = this.pending.get(reply.requestId);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timeout);
+    this.pending.delete(reply.requestId);
+    if (reply.success) {
+      pending.resolve(reply.result);
+    } else {
+      pending.reject(new Error(reply.error));
+    }
+  }
+
+  private handleMemberMessage(message: MemberMessage): void {
+    if (message.instanceId === this.instanceId) {
+      return;
+    }
+
+    if (message.type === 'leave') {
+      this.members.delete(message.instanceId);
+    } else {
+      const now = Date.now();
+      const known = this.members.get(message.instanceId);
+      this.members.set(message.instanceId, {
+        lastSeen: now,
+        eligibleAt: known ? known.eligibleAt : now - message.uptimeMs + this.timings.settleMs
+      });
+
+      if (message.type === 'hello') {
+        this.publishMember({ type: 'heartbeat', instanceId: this.instanceId, uptimeMs: Date.now() - this.startedAt });
+      }
+    }
+    this.checkOwners();
+  }
+
+  private publishMember(message: MemberMessage): void {
+    this.bus.publish(MEMBERS_CHANNEL, JSON.stringify(message));
+  }
+
+  private checkOwners(): void {
+    const owners = this.candidates().join(',');
+    if (owners === this.owners) {
+      return;
+    }
+
+    this.owners = owners;
+    this.ownershipListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error handling an ownership change:', error);
+      }
+    });
+  }
+
+  // The live instances rooms are shared between, leaving out those that have
+  // only just started unless there is nobody else
+  private candidates(): string[] {
+    const now = Date.now();
+    const live = Array.from(this.members.entries())
+      .filter(([, member]) => now - member.lastSeen <= this.timings.memberTimeoutMs)
+      .map(([id, member]) => ({ id, eligibleAt: member.eligibleAt }))
+      .concat({ id: this.instanceId, eligibleAt: this.startedAt + this.timings.settleMs });
+
+    const eligible = live.filter(member => member.eligibleAt <= now);
+    return (eligible.length > 0 ? eligible : live).map(member => member.id).sort();
+  }
+
+  private score(instanceId: string, roomId: string): number {
+    return crypto.createHash('sha1').update(`${instanceId}:${roomId}`).digest().readUInt32BE(0);
+  }
+}
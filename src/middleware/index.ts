@@ -1,16 +1,84 @@
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
-import { ApiResponse } from '../types';
+import { ApiResponse, Failure, SessionClaims, ViewClaims } from '../types';
+import { roomService } from '../services/roomService';
+import { httpStatusFor } from '../services/failures';
+import { metrics } from '../services/metrics';
+import { verifySessionToken, verifyViewToken } from '../services/sessionTokens';
+import { Schema, describeIssues, validate } from '../validation/schema';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      auth?: SessionClaims;
+      view?: ViewClaims;
+    }
+  }
+}
+
+// Reply with the HTTP status that belongs to a service failure's code
+export const sendFailure = (res: Response<ApiResponse>, failure: Failure): Response<ApiResponse> =>
+  res.status(httpStatusFor(failure.code)).json({
+    success: false,
+    code: failure.code,
+    error: failure.error
+  });
+
+// Time every request, labelled with the route pattern rather than the URL so
+// room and story IDs do not each get their own series
+export const recordRequestMetrics = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const startedAt = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+    metrics.observeRequest(req.method, routePattern(req), res.statusCode, seconds);
+  });
+
+  next();
+};
+
+// Routers mounted under a parameterised path only know their own pattern, so
+// put the parameter names back into the part of the URL they were mounted at
+const routePattern = (req: Request): string => {
+  if (!req.route) {
+    return 'unmatched';
+  }
+
+  const names = new Map(Object.entries(req.params || {}).map(([name, value]) => [value, name]));
+  const base = req.baseUrl
+    .split('/')
+    .map(segment => (names.has(segment) ? `:${names.get(segment)}` : segment))
+    .join('/');
+
+  return base && req.route.path === '/' ? base : `${base}${req.route.path}`;
+};
 
 export const errorHandler = (
-  err: Error,
+  err: Error & { status?: number; expose?: boolean },
   req: Request,
   res: Response<ApiResponse>,
   next: NextFunction
 ): void => {
+  // Body parser errors (malformed JSON, payload too large) are the client's fault
+  if (err.expose && err.status && err.status < 500) {
+    res.status(err.status).json({
+      success: false,
+      code: 'invalid-request',
+      error: err.message
+    });
+    return;
+  }
+
   console.error('Error:', err);
 
   const response: ApiResponse = {
     success: false,
+    code: 'internal-error',
     error: process.env.NODE_ENV === 'production' 
       ? 'Internal server error' 
       : err.message
@@ -22,6 +90,7 @@ export const errorHandler = (
 export const notFound = (req: Request, res: Response<ApiResponse>): void => {
   const response: ApiResponse = {
     success: false,
+    code: 'route-not-found',
     error: `Route ${req.originalUrl} not found`
   };
   
@@ -38,6 +107,7 @@ export const validateRoomId = (
   if (!roomId || roomId.length !== 6) {
     const response: ApiResponse = {
       success: false,
+      code: 'invalid-request',
       error: 'Invalid room ID format'
     };
     res.status(400).json(response);
@@ -59,6 +129,7 @@ export const validateUserId = (
   if (!userIdToCheck) {
     const response: ApiResponse = {
       success: false,
+      code: 'invalid-request',
       error: 'User ID is required'
     };
     res.status(400).json(response);
@@ -67,3 +138,174 @@ export const validateUserId = (
   
   next();
 };
+
+
+// Require a valid session token for the room in the Authorization header.
+// The verified identity is available as req.auth.
+export const requireSession = (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+
+  const claims = scheme === 'Bearer' && token ? verifySessionToken(token) : null;
+  if (!claims) {
+    const response: ApiResponse = {
+      success: false,
+      code: 'unauthenticated',
+      error: 'A valid session token is required'
+    };
+    res.status(401).json(response);
+    return;
+  }
+
+  const { roomId } = req.params;
+  const room = roomService.getRoom(claims.roomId);
+  if (claims.roomId !== roomId || !room || !room.users.has(claims.userId)) {
+    const response: ApiResponse = {
+      success: false,
+      code: 'not-a-member',
+      error: 'Session is not valid for this room'
+    };
+    res.status(403).json(response);
+    return;
+  }
+
+  req.auth = claims;
+  next();
+};
+// Require a view-only token for the room, from the Authorization header or
+// the token query parameter since EventSource cannot set headers
+export const requireViewToken = (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  const [scheme, headerToken] = (req.headers.authorization || '').split(' ');
+  const token = scheme === 'Bearer' && headerToken ? headerToken : req.query.token;
+
+  const claims = typeof token === 'string' ? verifyViewToken(token) : null;
+  if (!claims) {
+    const response: ApiResponse = {
+      success: false,
+      code: 'unauthenticated',
+      error: 'A valid view token is required'
+    };
+    res.status(401).json(response);
+    return;
+  }
+
+  if (claims.roomId !== req.params.roomId) {
+    const response: ApiResponse = {
+      success: false,
+      code: 'not-authorized',
+      error: 'View token is not valid for this room'
+    };
+    res.status(403).json(response);
+    return;
+  }
+
+  // Revoked, or issued for an earlier room with the same ID
+  if (!roomService.isViewTokenCurrent(claims.roomId, claims.nonce)) {
+    const response: ApiResponse = {
+      success: false,
+      code: 'unauthenticated',
+      error: 'View token has been revoked'
+    };
+    res.status(401).json(response);
+    return;
+  }
+
+  req.view = claims;
+  next();
+};
+
+// Operator routes take the server's OPERATOR_API_KEY as a Bearer token. They
+// do not exist at all when no key is configured.
+export const requireOperatorKey = (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  const apiKey = process.env.OPERATOR_API_KEY;
+  if (!apiKey) {
+    notFound(req, res);
+    return;
+  }
+
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  // Compare digests so the check takes the same time whatever the key length
+  const digest = (value: string): Buffer => crypto.createHash('sha256').update(value).digest();
+  if (scheme !== 'Bearer' || !token || !crypto.timingSafeEqual(digest(token), digest(apiKey))) {
+    const response: ApiResponse = {
+      success: false,
+      code: 'unauthenticated',
+      error: 'A valid operator API key is required'
+    };
+    res.status(401).json(response);
+    return;
+  }
+
+  next();
+};
+
+// Read endpoints are open for rooms without a passcode; protected rooms only
+// show their state to members
+export const requireSessionIfProtected = (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  if (!roomService.isProtected(req.params.roomId)) {
+    next();
+    return;
+  }
+
+  requireSession(req, res, next);
+};
+
+// Check the request body against a schema and replace it with the cleaned value
+export const validateBody = <T>(schema: Schema<T>) => (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  const result = validate(schema, req.body);
+  if (!result.success) {
+    const response: ApiResponse = {
+      success: false,
+      code: 'invalid-request',
+      error: describeIssues(result.issues),
+      details: result.issues
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  req.body = result.value;
+  next();
+};
+
+// Check the query string against a schema and replace it with the parsed value
+export const validateQuery = <T>(schema: Schema<T>) => (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  const result = validate(schema, req.query);
+  if (!result.success) {
+    const response: ApiResponse = {
+      success: false,
+      code: 'invalid-request',
+      error: describeIssues(result.issues),
+      details: result.issues
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  req.query = result.value as Request['query'];
+  next();
+};
@@ -0,0 +1,130 @@
+import express, { Request, Response } from 'express';
+import { roomService } from '../services/roomService';
+import * as roomCommands from '../services/roomCommands';
+import { requireOperatorKey, sendFailure, validateBody, validateQuery, validateRoomId } from '../middleware';
+import { operatorRoomListSchema, targetUserSchema } from '../validation';
+import { ApiResponse, OperatorRoomList, OperatorRoomListQuery, TargetUserPayload } from '../types';
+
+// Mounted under /api/operator, for whoever runs the server rather than room
+// members. Every route needs the operator API key.
+const router = express.Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+
+router.use(requireOperatorKey);
+
+// List rooms, most recently active first. Filters: search (room ID or name),
+// passcodeProtected, minUsers and idleMinutes (no activity for at least that
+// long); paged with page and pageSize.
+router.get('/rooms', validateQuery(operatorRoomListSchema), (req: Request, res: Response<ApiResponse>) => {
+  const { search, passcodeProtected, minUsers, idleMinutes, page = 1, pageSize = DEFAULT_PAGE_SIZE } = req.query as OperatorRoomListQuery;
+
+  try {
+    const term = search ? search.toLowerCase() : null;
+    const idleSince = idleMinutes !== undefined ? Date.now() - idleMinutes * 60 * 1000 : null;
+
+    const rooms = roomService.getAllRooms()
+      .filter(room => !term || room.id.toLowerCase().includes(term) || room.name.toLowerCase().includes(term))
+      .filter(room => passcodeProtected === undefined || room.passcodeProtected === passcodeProtected)
+      .filter(room => minUsers === undefined || room.userCount >= minUsers)
+      .filter(room => idleSince === null || room.lastActivity.getTime() <= idleSince)
+      .sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
+
+    const list: OperatorRoomList = {
+      rooms: rooms.slice((page - 1) * pageSize, page * pageSize),
+      total: rooms.length,
+      page,
+      pageSize
+    };
+
+    return res.json({
+      success: true,
+      data: list
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to list rooms'
+    });
+  }
+});
+
+// Inspect a room's full state, including unrevealed votes
+router.get('/rooms/:roomId', validateRoomId, (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+
+  try {
+    const state = roomService.getRoomState(roomId);
+
+    if (!state) {
+      return res.status(404).json({
+        success: false,
+        code: 'room-not-found',
+        error: 'Room not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: state
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to get room state'
+    });
+  }
+});
+
+// Close a room now; its participants receive room-closed
+router.delete('/rooms/:roomId', validateRoomId, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+
+  try {
+    const result = await roomCommands.closeRoom(roomId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: { message: 'Room closed' }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to close room'
+    });
+  }
+});
+
+// Make a participant the facilitator; the current one becomes a co-facilitator
+router.post('/rooms/:roomId/facilitator', validateRoomId, validateBody(targetUserSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { targetUserId }: TargetUserPayload = req.body;
+
+  try {
+    const result = await roomCommands.forceFacilitator(roomId, targetUserId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getRoomState(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to hand over the facilitator role'
+    });
+  }
+});
+
+export default router;
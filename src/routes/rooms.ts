@@ -1,38 +1,64 @@
 import express, { Request, Response } from 'express';
+import storyRoutes from './stories';
+import webhookRoutes from './webhooks';
 import { roomService } from '../services/roomService';
-import { validateRoomId, validateUserId } from '../middleware';
-import { ApiResponse, RoomJoinRequest, StoryUpdateRequest, VoteSubmission } from '../types';
+import { getDefaultDeck, resolveDeck } from '../services/decks';
+import { nudgeStragglers } from '../services/roomEvents';
+import * as roomCommands from '../services/roomCommands';
+import { EXPORT_FORMATS, formatSessionReport } from '../services/sessionReport';
+import { roomStreams } from '../services/roomStream';
+import { requireSession, requireSessionIfProtected, requireViewToken, sendFailure, validateBody, validateRoomId, validateUserId } from '../middleware';
+import {
+  deckUpdateSchema,
+  estimationStartSchema,
+  inviteCreateSchema,
+  passcodeUpdateSchema,
+  renameSchema,
+  roleUpdateSchema,
+  roomCreateSchema,
+  roomJoinSchema,
+  settingsSchema,
+  storyUpdateSchema,
+  targetUserSchema,
+  timerStartSchema,
+  viewTokenCreateSchema,
+  voteSchema
+} from '../validation';
+import { ApiResponse, DeckRequest, ExportFormat, InviteCreateRequest, PasscodeUpdateRequest, RenameRequest, RoleUpdateRequest, RoomCreateRequest, RoomSettings, RoomJoinRequest, StoryUpdateRequest, TimerStartRequest, ViewTokenCreateRequest, VoteSubmission } from '../types';
 
 const router = express.Router();
 
 // Create a new room
-router.post('/', (req: Request, res: Response<ApiResponse>) => {
-  const { roomName, adminName } = req.body;
-  
-  if (!roomName || !adminName) {
+router.post('/', validateBody(roomCreateSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomName, adminName, deck: deckRequest, passcode }: RoomCreateRequest = req.body;
+
+  const { deck, error } = deckRequest ? resolveDeck(deckRequest) : { deck: getDefaultDeck(), error: undefined };
+  if (!deck) {
     return res.status(400).json({
       success: false,
-      error: 'Room name and admin name are required'
+      code: 'invalid-request',
+      error
     });
   }
 
   try {
-    const { roomId, userId } = roomService.createRoom(roomName, adminName);
+    const { roomId, userId, token } = await roomCommands.createRoom(roomName, adminName, deck, passcode, 'rest');
     
     return res.status(201).json({
       success: true,
-      data: { roomId, userId }
+      data: { roomId, userId, token }
     });
   } catch (error) {
     return res.status(500).json({
       success: false,
+      code: 'internal-error',
       error: 'Failed to create room'
     });
   }
 });
 
 // Get room details
-router.get('/:roomId', validateRoomId, (req: Request, res: Response<ApiResponse>) => {
+router.get('/:roomId', validateRoomId, requireSessionIfProtected, (req: Request, res: Response<ApiResponse>) => {
   const { roomId } = req.params;
   
   try {
@@ -41,6 +67,7 @@ router.get('/:roomId', validateRoomId, (req: Request, res: Response<ApiResponse>
     if (!roomSummary) {
       return res.status(404).json({
         success: false,
+        code: 'room-not-found',
         error: 'Room not found'
       });
     }
@@ -52,57 +79,54 @@ router.get('/:roomId', validateRoomId, (req: Request, res: Response<ApiResponse>
   } catch (error) {
     return res.status(500).json({
       success: false,
+      code: 'internal-error',
       error: 'Failed to get room details'
     });
   }
 });
 
 // Join a room
-router.post('/:roomId/join', validateRoomId, (req: Request, res: Response<ApiResponse>) => {
+router.post('/:roomId/join', validateRoomId, validateBody(roomJoinSchema), async (req: Request, res: Response<ApiResponse>) => {
   const { roomId } = req.params;
-  const { userName, isAdmin }: RoomJoinRequest = req.body;
-  
-  if (!userName) {
-    return res.status(400).json({
-      success: false,
-      error: 'User name is required'
-    });
-  }
+  const { userName, role, passcode, inviteToken }: RoomJoinRequest = req.body;
 
   try {
-    const result = roomService.joinRoom(roomId, userName, isAdmin);
+    const result = await roomCommands.joinRoom(roomId, userName, role, { passcode, inviteToken }, 'rest');
     
     if (!result.success) {
-      return res.status(400).json({
-        success: false,
-        error: result.error
-      });
+      return sendFailure(res, result);
     }
 
     return res.status(201).json({
       success: true,
-      data: { userId: result.userId }
+      data: { userId: result.userId, token: result.token }
     });
   } catch (error) {
     return res.status(500).json({
       success: false,
+      code: 'internal-error',
       error: 'Failed to join room'
     });
   }
 });
 
 // Leave a room
-router.delete('/:roomId/users/:userId', validateRoomId, validateUserId, (req: Request, res: Response<ApiResponse>) => {
+router.delete('/:roomId/users/:userId', validateRoomId, validateUserId, requireSession, async (req: Request, res: Response<ApiResponse>) => {
   const { roomId, userId } = req.params;
+
+  if (req.auth!.userId !== userId) {
+    return res.status(403).json({
+      success: false,
+      code: 'not-authorized',
+      error: 'You can only remove yourself from a room'
+    });
+  }
   
   try {
-    const success = roomService.leaveRoom(roomId, userId);
+    const result = await roomCommands.leaveRoom(roomId, { userId, transport: 'rest' });
     
-    if (!success) {
-      return res.status(404).json({
-        success: false,
-        error: 'Room or user not found'
-      });
+    if (!result.success) {
+      return sendFailure(res, result);
     }
 
     return res.json({
@@ -112,31 +136,226 @@ router.delete('/:roomId/users/:userId', validateRoomId, validateUserId, (req: Re
   } catch (error) {
     return res.status(500).json({
       success: false,
+      code: 'internal-error',
       error: 'Failed to leave room'
     });
   }
 });
 
-// Update room story
-router.put('/:roomId/story', validateRoomId, (req: Request, res: Response<ApiResponse>) => {
+// Remove a participant from the room (facilitators only)
+router.post('/:roomId/users/:userId/kick', validateRoomId, validateUserId, requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, userId: targetUserId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.kickUser(roomId, { userId, transport: 'rest' }, targetUserId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getUsersInRoom(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to remove participant'
+    });
+  }
+});
+
+// Remove a participant and ban them from rejoining (facilitators only)
+router.post('/:roomId/users/:userId/ban', validateRoomId, validateUserId, requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, userId: targetUserId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.banUser(roomId, { userId, transport: 'rest' }, targetUserId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getUsersInRoom(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to ban participant'
+    });
+  }
+});
+
+// Rename a participant (facilitators, or participants renaming themselves)
+router.put('/:roomId/users/:userId/name', validateRoomId, validateUserId, requireSession, validateBody(renameSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, userId: targetUserId } = req.params;
+  const { userId } = req.auth!;
+  const { name }: RenameRequest = req.body;
+
+  try {
+    const result = await roomCommands.renameUser(roomId, { userId, transport: 'rest' }, targetUserId, name);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getUsersInRoom(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to rename participant'
+    });
+  }
+});
+
+// Change another participant's role (facilitator only)
+router.put('/:roomId/users/:userId/role', validateRoomId, validateUserId, requireSession, validateBody(roleUpdateSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, userId: targetUserId } = req.params;
+  const { userId } = req.auth!;
+  const { role }: RoleUpdateRequest = req.body;
+
+  try {
+    const result = await roomCommands.setUserRole(roomId, { userId, transport: 'rest' }, targetUserId, role);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getUsersInRoom(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to change role'
+    });
+  }
+});
+
+// Hand the facilitator role to another participant (facilitator only)
+router.post('/:roomId/facilitator', validateRoomId, requireSession, validateBody(targetUserSchema), async (req: Request, res: Response<ApiResponse>) => {
   const { roomId } = req.params;
-  const { userId, title, description }: StoryUpdateRequest & { userId: string } = req.body;
-  
-  if (!userId) {
-    return res.status(400).json({
+  const { userId } = req.auth!;
+  const { targetUserId }: { targetUserId: string } = req.body;
+
+  try {
+    const result = await roomCommands.transferFacilitator(roomId, { userId, transport: 'rest' }, targetUserId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getUsersInRoom(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
       success: false,
-      error: 'User ID is required'
+      code: 'internal-error',
+      error: 'Failed to transfer facilitator role'
     });
   }
+});
+
+// Take over a vacant facilitator role
+router.post('/:roomId/facilitator/claim', validateRoomId, requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
 
   try {
-    const success = roomService.updateStory(roomId, userId, { title, description });
+    const result = await roomCommands.claimFacilitator(roomId, { userId, transport: 'rest' });
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getUsersInRoom(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to claim facilitator role'
+    });
+  }
+});
+
+// Keep an idle room open for another full idle timeout (facilitators only)
+router.post('/:roomId/extend', validateRoomId, requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.extendRoom(roomId, { userId, transport: 'rest' });
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: { expiresAt: result.expiresAt }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to extend room'
+    });
+  }
+});
+
+// End the session and close the room for everyone (facilitators only)
+router.post('/:roomId/end', validateRoomId, requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.endSession(roomId, { userId, transport: 'rest' });
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: { message: 'Session ended' }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to end session'
+    });
+  }
+});
+
+// Update room story
+router.put('/:roomId/story', validateRoomId, requireSession, validateBody(storyUpdateSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+  const { title, description }: StoryUpdateRequest = req.body;
+
+  try {
+    const result = await roomCommands.updateStory(roomId, { userId, transport: 'rest' }, { title, description: description || '' });
     
-    if (!success) {
-      return res.status(403).json({
-        success: false,
-        error: 'Only admin can update story or room not found'
-      });
+    if (!result.success) {
+      return sendFailure(res, result);
     }
 
     return res.json({
@@ -146,31 +365,23 @@ router.put('/:roomId/story', validateRoomId, (req: Request, res: Response<ApiRes
   } catch (error) {
     return res.status(500).json({
       success: false,
+      code: 'internal-error',
       error: 'Failed to update story'
     });
   }
 });
 
 // Submit a vote
-router.post('/:roomId/vote', validateRoomId, (req: Request, res: Response<ApiResponse>) => {
+router.post('/:roomId/vote', validateRoomId, requireSession, validateBody(voteSchema), async (req: Request, res: Response<ApiResponse>) => {
   const { roomId } = req.params;
-  const { userId, estimate }: VoteSubmission = req.body;
-  
-  if (!userId || !estimate) {
-    return res.status(400).json({
-      success: false,
-      error: 'User ID and estimate are required'
-    });
-  }
+  const { userId } = req.auth!;
+  const { estimate }: VoteSubmission = req.body;
 
   try {
-    const success = roomService.submitVote(roomId, userId, estimate);
+    const result = await roomCommands.submitVote(roomId, { userId, transport: 'rest' }, estimate);
     
-    if (!success) {
-      return res.status(400).json({
-        success: false,
-        error: 'Failed to submit vote - room not found or voting closed'
-      });
+    if (!result.success) {
+      return sendFailure(res, result);
     }
 
     return res.json({
@@ -180,31 +391,74 @@ router.post('/:roomId/vote', validateRoomId, (req: Request, res: Response<ApiRes
   } catch (error) {
     return res.status(500).json({
       success: false,
+      code: 'internal-error',
       error: 'Failed to submit vote'
     });
   }
 });
 
-// Reveal votes (admin only)
-router.post('/:roomId/reveal', validateRoomId, (req: Request, res: Response<ApiResponse>) => {
+// Change the room's card deck (facilitators only)
+router.put('/:roomId/deck', validateRoomId, requireSession, validateBody(deckUpdateSchema), async (req: Request, res: Response<ApiResponse>) => {
   const { roomId } = req.params;
-  const { userId } = req.body;
-  
-  if (!userId) {
-    return res.status(400).json({
+  const { userId } = req.auth!;
+  const { deck }: { deck: DeckRequest } = req.body;
+
+  try {
+    const result = await roomCommands.setDeck(roomId, { userId, transport: 'rest' }, deck);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getRoomSummary(roomId)?.deck
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to change deck'
+    });
+  }
+});
+
+// Start a new estimation round, optionally with a countdown (facilitators only)
+router.post('/:roomId/estimation', validateRoomId, requireSession, validateBody(estimationStartSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+  const timer: Partial<TimerStartRequest> | undefined = req.body;
+
+  try {
+    const result = await roomCommands.startEstimation(roomId, { userId, transport: 'rest' }, timer);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getVotingResults(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
       success: false,
-      error: 'User ID is required'
+      code: 'internal-error',
+      error: 'Failed to start estimation'
     });
   }
+});
+
+// Reveal votes (facilitators only)
+router.post('/:roomId/reveal', validateRoomId, requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
 
   try {
-    const success = roomService.revealVotes(roomId, userId);
+    const result = await roomCommands.revealVotes(roomId, { userId, transport: 'rest' });
     
-    if (!success) {
-      return res.status(403).json({
-        success: false,
-        error: 'Only admin can reveal votes or room not found'
-      });
+    if (!result.success) {
+      return sendFailure(res, result);
     }
 
     return res.json({
@@ -214,31 +468,124 @@ router.post('/:roomId/reveal', validateRoomId, (req: Request, res: Response<ApiR
   } catch (error) {
     return res.status(500).json({
       success: false,
+      code: 'internal-error',
       error: 'Failed to reveal votes'
     });
   }
 });
 
-// Reset voting (admin only)
-router.post('/:roomId/reset', validateRoomId, (req: Request, res: Response<ApiResponse>) => {
+// Change room settings such as auto-reveal (facilitators only)
+router.put('/:roomId/settings', validateRoomId, requireSession, validateBody(settingsSchema), async (req: Request, res: Response<ApiResponse>) => {
   const { roomId } = req.params;
-  const { userId } = req.body;
-  
-  if (!userId) {
-    return res.status(400).json({
+  const { userId } = req.auth!;
+  const settings: Partial<RoomSettings> = req.body;
+
+  try {
+    const result = await roomCommands.updateSettings(roomId, { userId, transport: 'rest' }, settings);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getRoomSummary(roomId)?.settings
+    });
+  } catch (error) {
+    return res.status(500).json({
       success: false,
-      error: 'User ID is required'
+      code: 'internal-error',
+      error: 'Failed to update settings'
     });
   }
+});
+
+// Remind participants who have not voted yet (facilitators only)
+router.post('/:roomId/nudge', validateRoomId, requireSession, (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
 
   try {
-    const success = roomService.resetVoting(roomId, userId);
+    const result = nudgeStragglers(roomId, userId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: { userIds: result.userIds }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to nudge participants'
+    });
+  }
+});
+
+// Start a countdown for the current round (facilitators only)
+router.post('/:roomId/timer', validateRoomId, requireSession, validateBody(timerStartSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+  const { durationSeconds, autoReveal }: TimerStartRequest = req.body;
+
+  try {
+    const result = await roomCommands.startTimer(roomId, { userId, transport: 'rest' }, durationSeconds, !!autoReveal);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: roomService.getTimer(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to start timer'
+    });
+  }
+});
+
+// Stop the running countdown (facilitators only)
+router.delete('/:roomId/timer', validateRoomId, requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.stopTimer(roomId, { userId, transport: 'rest' });
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: { message: 'Timer stopped successfully' }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to stop timer'
+    });
+  }
+});
+
+// Reset voting (facilitators only)
+router.post('/:roomId/reset', validateRoomId, requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.resetVoting(roomId, { userId, transport: 'rest' });
     
-    if (!success) {
-      return res.status(403).json({
-        success: false,
-        error: 'Only admin can reset voting or room not found'
-      });
+    if (!result.success) {
+      return sendFailure(res, result);
     }
 
     return res.json({
@@ -248,13 +595,14 @@ router.post('/:roomId/reset', validateRoomId, (req: Request, res: Response<ApiRe
   } catch (error) {
     return res.status(500).json({
       success: false,
+      code: 'internal-error',
       error: 'Failed to reset voting'
     });
   }
 });
 
 // Get voting results
-router.get('/:roomId/results', validateRoomId, (req: Request, res: Response<ApiResponse>) => {
+router.get('/:roomId/results', validateRoomId, requireSessionIfProtected, (req: Request, res: Response<ApiResponse>) => {
   const { roomId } = req.params;
   
   try {
@@ -263,6 +611,7 @@ router.get('/:roomId/results', validateRoomId, (req: Request, res: Response<ApiR
     if (!results) {
       return res.status(404).json({
         success: false,
+        code: 'room-not-found',
         error: 'Room not found'
       });
     }
@@ -274,13 +623,272 @@ router.get('/:roomId/results', validateRoomId, (req: Request, res: Response<ApiR
   } catch (error) {
     return res.status(500).json({
       success: false,
+      code: 'internal-error',
       error: 'Failed to get voting results'
     });
   }
 });
 
+// Get the history of revealed estimation rounds
+router.get('/:roomId/history', validateRoomId, requireSessionIfProtected, (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+
+  try {
+    const history = roomService.getHistory(roomId);
+
+    if (!history) {
+      return res.status(404).json({
+        success: false,
+        code: 'room-not-found',
+        error: 'Room not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: history
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to get room history'
+    });
+  }
+});
+
+// Who did what in the room, oldest first (facilitators only)
+router.get('/:roomId/audit', validateRoomId, requireSession, (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = roomService.getAuditLog(roomId, userId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: result.entries
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to get audit log'
+    });
+  }
+});
+
+// Set, change or remove the room passcode (facilitators only)
+router.put('/:roomId/passcode', validateRoomId, requireSession, validateBody(passcodeUpdateSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+  const { passcode }: PasscodeUpdateRequest = req.body;
+
+  try {
+    const result = await roomCommands.setPasscode(roomId, { userId, transport: 'rest' }, passcode);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: { passcodeProtected: passcode !== null }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to update passcode'
+    });
+  }
+});
+
+// Create an invite token that expires and/or has a limited number of uses (facilitators only)
+router.post('/:roomId/invites', validateRoomId, requireSession, validateBody(inviteCreateSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+  const { expiresInMinutes, maxUses }: InviteCreateRequest = req.body;
+
+  try {
+    const result = await roomCommands.createInvite(roomId, { userId, transport: 'rest' }, expiresInMinutes, maxUses);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: { ...result.invite, token: result.token }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to create invite'
+    });
+  }
+});
+
+// List invites that can still be used (facilitators only)
+router.get('/:roomId/invites', validateRoomId, requireSession, (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = roomService.getInvites(roomId, userId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: result.invites
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to get invites'
+    });
+  }
+});
+
+// Revoke an invite (facilitators only)
+router.delete('/:roomId/invites/:inviteId', validateRoomId, requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, inviteId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.revokeInvite(roomId, { userId, transport: 'rest' }, inviteId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: { message: 'Invite revoked successfully' }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to revoke invite'
+    });
+  }
+});
+
+// Download the session's results as CSV, JSON or Markdown (facilitators only)
+router.get('/:roomId/export', validateRoomId, requireSession, (req: Request, res: Response) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+  const format = (typeof req.query.format === 'string' ? req.query.format : 'json') as ExportFormat;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({
+      success: false,
+      code: 'invalid-request',
+      error: `Export format must be one of: ${EXPORT_FORMATS.join(', ')}`
+    });
+  }
+
+  try {
+    const result = roomService.getSessionReport(roomId, userId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    const { contentType, body } = formatSessionReport(result.report, format);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${roomId}-results.${format}"`);
+    return res.send(body);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to export results'
+    });
+  }
+});
+
+// Create a view-only token for dashboards that expires, after 12 hours
+// unless given expiresInMinutes (facilitators only)
+router.post('/:roomId/view-token', validateRoomId, requireSession, validateBody(viewTokenCreateSchema), (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+  const { expiresInMinutes }: ViewTokenCreateRequest = req.body;
+
+  try {
+    const result = roomService.createViewToken(roomId, userId, expiresInMinutes);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: { token: result.token, expiresAt: result.expiresAt }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to create view token'
+    });
+  }
+});
+
+// Revoke every view token issued so far and close the streams using them
+// (facilitators only)
+router.delete('/:roomId/view-token', validateRoomId, requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.revokeViewTokens(roomId, { userId, transport: 'rest' });
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: { message: 'View tokens revoked' }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to revoke view tokens'
+    });
+  }
+});
+
+// Follow the room as Server-Sent Events: a snapshot of the room, its
+// participants and the results whenever anything changes
+router.get('/:roomId/stream', validateRoomId, requireViewToken, (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+
+  if (!roomService.getRoom(roomId)) {
+    return res.status(404).json({
+      success: false,
+      code: 'room-not-found',
+      error: 'Room not found'
+    });
+  }
+
+  return roomStreams.open(roomId, res, req.view!);
+});
+
 // Get users in room
-router.get('/:roomId/users', validateRoomId, (req: Request, res: Response<ApiResponse>) => {
+router.get('/:roomId/users', validateRoomId, requireSessionIfProtected, (req: Request, res: Response<ApiResponse>) => {
   const { roomId } = req.params;
   
   try {
@@ -293,9 +901,14 @@ router.get('/:roomId/users', validateRoomId, (req: Request, res: Response<ApiRes
   } catch (error) {
     res.status(500).json({
       success: false,
+      code: 'internal-error',
       error: 'Failed to get users'
     });
   }
 });
 
+// Story backlog
+router.use('/:roomId/stories', validateRoomId, storyRoutes);
+router.use('/:roomId/webhooks', validateRoomId, webhookRoutes);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,309 @@
+import express, { Request, Response } from 'express';
+import { roomService } from '../services/roomService';
+import { ParsedStoryRow, parseStoryImport, StoryImportParseResult } from '../services/storyImport';
+import * as roomCommands from '../services/roomCommands';
+import { requireSession, requireSessionIfProtected, sendFailure, validateBody } from '../middleware';
+import { finalEstimateSchema, storyImportRowSchema, storyReorderSchema, storyUpdateSchema, validate } from '../validation';
+import { ApiResponse, FinalEstimateRequest, StoryImportRejection, StoryImportRequest, StoryReorderRequest, StoryUpdateRequest } from '../types';
+
+// Mounted under /api/rooms/:roomId/stories
+const router = express.Router({ mergeParams: true });
+
+// Get the story backlog
+router.get('/', requireSessionIfProtected, (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+
+  try {
+    const backlog = roomService.getStories(roomId);
+
+    if (!backlog) {
+      return res.status(404).json({
+        success: false,
+        code: 'room-not-found',
+        error: 'Room not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: backlog
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to get stories'
+    });
+  }
+});
+
+// Add a story to the end of the backlog (facilitators only)
+router.post('/', requireSession, validateBody(storyUpdateSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+  const { title, description }: StoryUpdateRequest = req.body;
+
+  try {
+    const result = await roomCommands.addStory(roomId, { userId, transport: 'rest' }, title, description || '');
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: result.story
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to add story'
+    });
+  }
+});
+
+// Reorder the backlog (facilitators only)
+router.put('/order', requireSession, validateBody(storyReorderSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+  const { storyIds }: StoryReorderRequest = req.body;
+
+  try {
+    const result = await roomCommands.reorderStories(roomId, { userId, transport: 'rest' }, storyIds);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getStories(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to reorder stories'
+    });
+  }
+});
+
+// Move to the next pending story and clear votes (facilitators only)
+router.post('/next', requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.nextStory(roomId, { userId, transport: 'rest' });
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getStories(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to move to the next story'
+    });
+  }
+});
+
+// Import stories in bulk from CSV or JSON (facilitators only). Accepts a raw
+// text/csv body, a JSON array of stories, { stories: [...] } or
+// { format: 'csv', data: '...' }. Rows that cannot be imported are reported
+// with the reason and their row number (the line for CSV, the position in the
+// array for JSON), and the rest are still added.
+router.post('/import', requireSession, express.text({ type: 'text/csv', limit: '10mb' }), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+
+  const request: StoryImportRequest | string = req.body;
+  let parsed: StoryImportParseResult;
+  if (typeof request === 'string') {
+    parsed = parseStoryImport('csv', request);
+  } else if (request && request.format === 'csv') {
+    parsed = parseStoryImport('csv', request.data);
+  } else {
+    parsed = parseStoryImport('json', request);
+  }
+
+  if (parsed.error) {
+    return res.status(400).json({
+      success: false,
+      code: 'invalid-request',
+      error: parsed.error
+    });
+  }
+
+  // Imported stories follow the same rules as stories added one at a time
+  const rows: ParsedStoryRow[] = [];
+  const invalid: StoryImportRejection[] = [];
+  parsed.rows.forEach(({ row, story }) => {
+    const checked = validate(storyImportRowSchema, story);
+    if (checked.success) {
+      rows.push({ row, story: { ...checked.value, description: checked.value.description || '' } });
+    } else {
+      invalid.push({ row, reason: checked.issues.map(issue => issue.message).join('; ') });
+    }
+  });
+
+  try {
+    const result = await roomCommands.importStories(roomId, { userId, transport: 'rest' }, rows);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    const rejected = [...parsed.rejected, ...invalid, ...result.rejected].sort((a, b) => a.row - b.row);
+
+    return res.status(result.imported.length > 0 ? 201 : 400).json({
+      success: result.imported.length > 0,
+      data: {
+        imported: result.imported,
+        rejected
+      },
+      ...(result.imported.length === 0 ? { code: 'invalid-request' as const, error: 'No stories could be imported' } : {})
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to import stories'
+    });
+  }
+});
+
+// Edit a story (facilitators only)
+router.put('/:storyId', requireSession, validateBody(storyUpdateSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, storyId } = req.params;
+  const { userId } = req.auth!;
+  const { title, description }: StoryUpdateRequest = req.body;
+
+  try {
+    const result = await roomCommands.editStory(roomId, { userId, transport: 'rest' }, storyId, { title, description: description || '' });
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: { message: 'Story updated successfully' }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to update story'
+    });
+  }
+});
+
+// Remove a story from the backlog (facilitators only)
+router.delete('/:storyId', requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, storyId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.removeStory(roomId, { userId, transport: 'rest' }, storyId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getStories(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to remove story'
+    });
+  }
+});
+
+// Skip a story (facilitators only)
+router.post('/:storyId/skip', requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, storyId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.skipStory(roomId, { userId, transport: 'rest' }, storyId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getStories(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to skip story'
+    });
+  }
+});
+
+// Record the estimate the team agreed on for a story (facilitators only)
+router.put('/:storyId/estimate', requireSession, validateBody(finalEstimateSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, storyId } = req.params;
+  const { userId } = req.auth!;
+  const { estimate }: FinalEstimateRequest = req.body;
+
+  try {
+    const result = await roomCommands.setFinalEstimate(roomId, { userId, transport: 'rest' }, storyId, estimate);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getStories(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to set final estimate'
+    });
+  }
+});
+
+// Make a story the current one and clear votes (facilitators only)
+router.post('/:storyId/select', requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, storyId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.selectStory(roomId, { userId, transport: 'rest' }, storyId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: roomService.getStories(roomId)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to select story'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,111 @@
+import express, { Request, Response } from 'express';
+import { roomService } from '../services/roomService';
+import * as roomCommands from '../services/roomCommands';
+import { requireSession, sendFailure, validateBody } from '../middleware';
+import { webhookCreateSchema } from '../validation';
+import { ApiResponse, WebhookCreateRequest } from '../types';
+
+// Mounted under /api/rooms/:roomId/webhooks, facilitators only
+const router = express.Router({ mergeParams: true });
+
+// List the room's webhooks (without their secrets)
+router.get('/', requireSession, (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = roomService.getWebhooks(roomId, userId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: result.webhooks
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to get webhooks'
+    });
+  }
+});
+
+// Subscribe a URL to the room's events; the response holds the signing secret
+router.post('/', requireSession, validateBody(webhookCreateSchema), async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId } = req.params;
+  const { userId } = req.auth!;
+  const { url, events }: WebhookCreateRequest = req.body;
+
+  try {
+    const result = await roomCommands.addWebhook(roomId, { userId, transport: 'rest' }, url, events);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: result.webhook
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to add webhook'
+    });
+  }
+});
+
+// Recent delivery attempts for a webhook, newest first
+router.get('/:webhookId/deliveries', requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, webhookId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.getWebhookDeliveries(roomId, { userId, transport: 'rest' }, webhookId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: result.deliveries
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to get webhook deliveries'
+    });
+  }
+});
+
+router.delete('/:webhookId', requireSession, async (req: Request, res: Response<ApiResponse>) => {
+  const { roomId, webhookId } = req.params;
+  const { userId } = req.auth!;
+
+  try {
+    const result = await roomCommands.removeWebhook(roomId, { userId, transport: 'rest' }, webhookId);
+
+    if (!result.success) {
+      return sendFailure(res, result);
+    }
+
+    return res.json({
+      success: true,
+      data: { message: 'Webhook removed successfully' }
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      code: 'internal-error',
+      error: 'Failed to remove webhook'
+    });
+  }
+});
+
+export default router;
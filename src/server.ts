@@ -1,16 +1,44 @@
+// Load .env before any module reads process.env at import time
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
-import dotenv from 'dotenv';
 
 import roomRoutes from './routes/rooms';
-import { errorHandler, notFound } from './middleware';
+import operatorRoutes from './routes/operator';
+import { errorHandler, notFound, recordRequestMetrics } from './middleware';
 import { roomService } from './services/roomService';
-
-dotenv.config();
+import { messageBus, roomBroadcaster, roomRouter, userChannel } from './cluster';
+import { notifyUserJoined, nudgeStragglers } from './services/roomEvents';
+import * as roomCommands from './services/roomCommands';
+import { timerService } from './services/timerService';
+import { webhookService } from './services/webhookService';
+import { presenceService } from './services/presenceService';
+import { roomLifecycle } from './services/roomLifecycle';
+import { roomStreams } from './services/roomStream';
+import { metrics } from './services/metrics';
+import { withAck } from './services/socketCommands';
+import { verifySessionToken } from './services/sessionTokens';
+import {
+  deckUpdateSchema,
+  estimationStartSchema,
+  roleAssignmentSchema,
+  settingsSchema,
+  storyEditSchema,
+  storyFinalEstimateSchema,
+  storyReferenceSchema,
+  storyReorderSchema,
+  storyUpdateSchema,
+  targetUserSchema,
+  timerStartSchema,
+  userRenameSchema,
+  voteSchema,
+  withPayload
+} from './validation';
+import { Actor, ClientToServerEvents, ServerToClientEvents, SocketData } from './types';
 
 const app = express();
 const server = createServer(app);
@@ -23,7 +51,7 @@ const corsOptions = {
   credentials: true
 };
 
-const io = new SocketIOServer(server, {
+const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(server, {
   cors: corsOptions,
   pingTimeout: 120000, // 2 minutes
   pingInterval: 30000, // 30 seconds
@@ -31,15 +59,38 @@ const io = new SocketIOServer(server, {
   allowEIO3: true
 });
 
+roomBroadcaster.attach(io);
+
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
   message: {
     success: false,
+    code: 'rate-limited',
     error: 'Too many requests from this IP, please try again later.'
   }
 });
 
+// Prometheus scrape endpoint. Registered ahead of the rate limiter and the
+// request timing, so scrapes are never throttled or counted as API traffic.
+app.get('/metrics', (req, res) => {
+  const stats = roomService.getStats();
+
+  res.type('text/plain; version=0.0.4').send(metrics.render([
+    { name: 'spp_rooms', help: 'Active rooms', samples: [{ value: stats.rooms }] },
+    {
+      name: 'spp_participants',
+      help: 'Participants in active rooms by connection state',
+      samples: [
+        { labels: { state: 'connected' }, value: stats.connectedUsers },
+        { labels: { state: 'disconnected' }, value: stats.disconnectedUsers }
+      ]
+    },
+    { name: 'spp_sockets', help: 'Open socket connections on this instance', samples: [{ value: io.of('/').sockets.size }] }
+  ]));
+});
+
+app.use(recordRequestMetrics);
 app.use(helmet());
 app.use(cors(corsOptions));
 app.use(limiter);
@@ -62,35 +113,58 @@ app.get('/health', (req, res) => {
 });
 
 app.use('/api/rooms', roomRoutes);
+app.use('/api/operator', operatorRoutes);
+
+// Bind every socket to the identity in its session token, so event payloads
+// cannot act on behalf of another user
+io.use((socket, next) => {
+  const claims = verifySessionToken(socket.handshake.auth?.token);
+  if (!claims) {
+    next(new Error('A valid session token is required'));
+    return;
+  }
+
+  socket.data.session = claims;
+  next();
+});
 
 io.on('connection', (socket) => {
-  socket.on('join-room', async (data: { roomId: string; userId: string }) => {
-    try {
-      const { roomId, userId } = data;
+  const { roomId, userId } = socket.data.session;
+  const actor: Actor = { userId, transport: 'socket' };
 
+  // Lets other instances reach this user's sockets, e.g. when they are removed
+  void socket.join(userChannel(userId));
+
+  // Count commands by name; anything without a handler is lumped together
+  socket.onAny(event => {
+    metrics.increment('spp_socket_events_total', { event: socket.listeners(event).length > 0 ? event : 'unknown' });
+  });
+
+  socket.on('join-room', withAck(socket, async reply => {
+    try {
       // Verify user exists in room
-      const room = roomService.getRoom(roomId);
-      if (!room || !room.users.has(userId)) {
-        socket.emit('error', { message: 'Invalid room or user' });
+      if (!roomService.getRoom(roomId)?.users.has(userId)) {
+        reply.fail({ code: 'not-a-member', message: 'Invalid room or user' });
         return;
       }
 
       // Track socket connection and mark user as connected
       roomService.setUserSocket(userId, socket.id);
+      await roomCommands.connectUser(roomId, userId, socket.id);
+      const room = roomService.getRoom(roomId);
+      if (!room) {
+        reply.fail({ code: 'room-not-found', message: 'Room not found' });
+        return;
+      }
 
       // Join socket room
       await socket.join(roomId);
 
       // Notify room of user join/reconnection
+      notifyUserJoined(roomId, userId, socket.id);
       const roomSummary = roomService.getRoomSummary(roomId);
       const users = roomService.getUsersInRoom(roomId);
 
-      socket.to(roomId).emit('user-joined', {
-        user: room.users.get(userId),
-        room: roomSummary,
-        users
-      });
-
       // First emit estimation started if applicable
       if (room.estimationStarted) {
         socket.emit('estimation-started', {
@@ -109,193 +183,274 @@ io.on('connection', (socket) => {
         users,
         results: roomService.getVotingResults(roomId)
       });
-
+      reply.ok();
     } catch (error) {
       console.error('Error joining room:', error);
-      socket.emit('error', { message: 'Failed to join room' });
+      reply.fail({ code: 'internal-error', message: 'Failed to join room' });
     }
-  });
+  }));
 
-  socket.on('leave-room', async (data: { roomId: string; userId: string }) => {
+  socket.on('leave-room', withAck(socket, async reply => {
     try {
-      const { roomId, userId } = data;
-
       await socket.leave(roomId);
+      reply.settle(await roomCommands.leaveRoom(roomId, actor));
+    } catch (error) {
+      console.error('Error leaving room:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to leave room' });
+    }
+  }));
 
-      const success = roomService.leaveRoom(roomId, userId);
-      if (success) {
-        const roomSummary = roomService.getRoomSummary(roomId);
-        const users = roomService.getUsersInRoom(roomId);
+  socket.on('start-estimation', withPayload(socket, estimationStartSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.startEstimation(roomId, actor, data));
+    } catch (error) {
+      console.error('Error starting estimation:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to start estimation' });
+    }
+  }));
 
-        socket.to(roomId).emit('user-left', {
-          userId,
-          room: roomSummary,
-          users
-        });
-      }
+  socket.on('submit-vote', withPayload(socket, voteSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.submitVote(roomId, actor, data.estimate));
+    } catch (error) {
+      console.error('Error submitting vote:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to submit vote' });
+    }
+  }));
 
+  socket.on('update-deck', withPayload(socket, deckUpdateSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.setDeck(roomId, actor, data.deck));
     } catch (error) {
-      console.error('Error leaving room:', error);
+      console.error('Error updating deck:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to update deck' });
     }
-  });
+  }));
 
-  socket.on('start-estimation', (data: { roomId: string; userId: string }) => {
+  socket.on('reveal-votes', withAck(socket, async reply => {
     try {
-      const { roomId, userId } = data;
+      reply.settle(await roomCommands.revealVotes(roomId, actor));
+    } catch (error) {
+      console.error('Error revealing votes:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to reveal votes' });
+    }
+  }));
 
-      const room = roomService.getRoom(roomId);
-      if (!room) {
-        socket.emit('error', { message: 'Room not found' });
-        return;
-      }
+  socket.on('update-settings', withPayload(socket, settingsSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.updateSettings(roomId, actor, data));
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to update settings' });
+    }
+  }));
 
-      const user = room.users.get(userId);
-      if (!user || !user.isAdmin) {
-        socket.emit('error', { message: 'Only admin can start estimation' });
-        return;
+  socket.on('nudge-stragglers', withAck(socket, reply => {
+    try {
+      const result = nudgeStragglers(roomId, userId);
+      if (result.success) {
+        socket.emit('stragglers-nudged', { userIds: result.userIds });
       }
+      reply.settle(result, result.success ? { userIds: result.userIds } : undefined);
+    } catch (error) {
+      console.error('Error nudging stragglers:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to nudge participants' });
+    }
+  }));
 
-      // Reset all votes when starting new estimation
-      room.users.forEach(u => {
-        u.hasVoted = false;
-        u.estimate = undefined;
-      });
-      room.votingRevealed = false;
-      room.estimationStarted = true;
+  socket.on('start-timer', withPayload(socket, timerStartSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.startTimer(roomId, actor, data.durationSeconds, !!data.autoReveal));
+    } catch (error) {
+      console.error('Error starting timer:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to start timer' });
+    }
+  }));
 
-      const users = roomService.getUsersInRoom(roomId);
-      const results = roomService.getVotingResults(roomId);
+  socket.on('stop-timer', withAck(socket, async reply => {
+    try {
+      reply.settle(await roomCommands.stopTimer(roomId, actor));
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to stop timer' });
+    }
+  }));
 
-      // Notify all users in room that estimation has started
-      io.to(roomId).emit('estimation-started', {
-        users,
-        results
-      });
+  socket.on('reset-voting', withAck(socket, async reply => {
+    try {
+      reply.settle(await roomCommands.resetVoting(roomId, actor));
+    } catch (error) {
+      console.error('Error resetting voting:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to reset voting' });
+    }
+  }));
 
+  socket.on('update-story', withPayload(socket, storyUpdateSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.updateStory(roomId, actor, { title: data.title, description: data.description || '' }));
     } catch (error) {
-      console.error('Error starting estimation:', error);
-      socket.emit('error', { message: 'Failed to start estimation' });
+      console.error('Error updating story:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to update story' });
     }
-  });
+  }));
 
-  socket.on('submit-vote', (data: { roomId: string; userId: string; estimate: string }) => {
+  socket.on('add-story', withPayload(socket, storyUpdateSchema, async (data, reply) => {
     try {
-      const { roomId, userId, estimate } = data;
+      const result = await roomCommands.addStory(roomId, actor, data.title, data.description || '');
+      reply.settle(result, result.success ? { story: result.story } : undefined);
+    } catch (error) {
+      console.error('Error adding story:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to add story' });
+    }
+  }));
 
-      const success = roomService.submitVote(roomId, userId, estimate);
-      if (success) {
-        const users = roomService.getUsersInRoom(roomId);
-        const results = roomService.getVotingResults(roomId);
+  socket.on('edit-story', withPayload(socket, storyEditSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.editStory(roomId, actor, data.storyId, { title: data.title, description: data.description || '' }));
+    } catch (error) {
+      console.error('Error editing story:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to edit story' });
+    }
+  }));
 
-        // Notify all users in room
-        io.to(roomId).emit('vote-submitted', {
-          userId,
-          users,
-          results
-        });
-      } else {
-        socket.emit('error', { message: 'Failed to submit vote' });
-      }
+  socket.on('reorder-stories', withPayload(socket, storyReorderSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.reorderStories(roomId, actor, data.storyIds));
     } catch (error) {
-      console.error('Error submitting vote:', error);
-      socket.emit('error', { message: 'Failed to submit vote' });
+      console.error('Error reordering stories:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to reorder stories' });
     }
-  });
+  }));
 
-  socket.on('reveal-votes', (data: { roomId: string; userId: string }) => {
+  socket.on('remove-story', withPayload(socket, storyReferenceSchema, async (data, reply) => {
     try {
-      const { roomId, userId } = data;
-
-      const success = roomService.revealVotes(roomId, userId);
-      if (success) {
-        const votingResults = roomService.getVotingResults(roomId);
-
-        if (votingResults) {
-          const eventData = {
-            revealed: votingResults.revealed,
-            votes: votingResults.votes,
-            summary: votingResults.summary
-          };
-
-          // Notify all users in room
-          io.to(roomId).emit('votes-revealed', eventData);
-        } else {
-          socket.emit('error', { message: 'Failed to get voting results' });
-        }
-      } else {
-        socket.emit('error', { message: 'Only admin can reveal votes' });
-      }
+      reply.settle(await roomCommands.removeStory(roomId, actor, data.storyId));
     } catch (error) {
-      console.error('Error revealing votes:', error);
-      socket.emit('error', { message: 'Failed to reveal votes' });
+      console.error('Error removing story:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to remove story' });
     }
-  });
+  }));
 
-  socket.on('reset-voting', (data: { roomId: string; userId: string }) => {
+  socket.on('skip-story', withPayload(socket, storyReferenceSchema, async (data, reply) => {
     try {
-      const { roomId, userId } = data;
+      reply.settle(await roomCommands.skipStory(roomId, actor, data.storyId));
+    } catch (error) {
+      console.error('Error skipping story:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to skip story' });
+    }
+  }));
 
-      const success = roomService.resetVoting(roomId, userId);
-      if (success) {
-        const users = roomService.getUsersInRoom(roomId);
-        const results = roomService.getVotingResults(roomId);
+  socket.on('set-final-estimate', withPayload(socket, storyFinalEstimateSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.setFinalEstimate(roomId, actor, data.storyId, data.estimate));
+    } catch (error) {
+      console.error('Error setting final estimate:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to set final estimate' });
+    }
+  }));
 
-        // Notify all users in room
-        io.to(roomId).emit('voting-reset', {
-          users,
-          results
-        });
-      } else {
-        socket.emit('error', { message: 'Only admin can reset voting' });
-      }
+  socket.on('select-story', withPayload(socket, storyReferenceSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.selectStory(roomId, actor, data.storyId));
     } catch (error) {
-      console.error('Error resetting voting:', error);
-      socket.emit('error', { message: 'Failed to reset voting' });
+      console.error('Error selecting story:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to select story' });
     }
-  });
+  }));
 
-  socket.on('update-story', (data: { roomId: string; userId: string; title: string; description: string }) => {
+  socket.on('next-story', withAck(socket, async reply => {
     try {
-      const { roomId, userId, title, description } = data;
+      reply.settle(await roomCommands.nextStory(roomId, actor));
+    } catch (error) {
+      console.error('Error moving to next story:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to move to the next story' });
+    }
+  }));
 
-      const success = roomService.updateStory(roomId, userId, { title, description });
-      if (success) {
-        const roomSummary = roomService.getRoomSummary(roomId);
+  socket.on('set-role', withPayload(socket, roleAssignmentSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.setUserRole(roomId, actor, data.targetUserId, data.role));
+    } catch (error) {
+      console.error('Error setting role:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to change role' });
+    }
+  }));
 
-        // Notify all users in room
-        io.to(roomId).emit('story-updated', {
-          story: { title, description },
-          room: roomSummary
-        });
-      } else {
-        socket.emit('error', { message: 'Only admin can update story' });
-      }
+  socket.on('transfer-facilitator', withPayload(socket, targetUserSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.transferFacilitator(roomId, actor, data.targetUserId));
     } catch (error) {
-      console.error('Error updating story:', error);
-      socket.emit('error', { message: 'Failed to update story' });
+      console.error('Error transferring facilitator role:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to transfer facilitator role' });
     }
-  });
+  }));
 
-  socket.on('disconnect', () => {
-    // Find the user associated with this socket and check if they have another active socket
-    const userId = roomService.getUserBySocketId(socket.id);
-    if (userId) {
-      const userRoom = roomService.getRoomByUserId(userId);
-      
-      // Only remove the socket mapping
-      roomService.removeSocketMapping(socket.id);
-
-      // Check if user has any other active sockets before marking as disconnected
-      const hasOtherActiveSockets = roomService.hasActiveSocket(userId);
-      
-      if (!hasOtherActiveSockets) {
-        roomService.markUserDisconnected(userId);
-
-        if (userRoom) {
-          const users = roomService.getUsersInRoom(userRoom.id);
-          io.to(userRoom.id).emit('user-disconnected', { userId, users });
-        }
-      }
+  socket.on('claim-facilitator', withAck(socket, async reply => {
+    try {
+      reply.settle(await roomCommands.claimFacilitator(roomId, actor));
+    } catch (error) {
+      console.error('Error claiming facilitator role:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to claim facilitator role' });
+    }
+  }));
+
+  socket.on('extend-room', withAck(socket, async reply => {
+    try {
+      const result = await roomCommands.extendRoom(roomId, actor);
+      reply.settle(result, result.success ? { expiresAt: result.expiresAt } : undefined);
+    } catch (error) {
+      console.error('Error extending room:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to extend room' });
+    }
+  }));
+
+  socket.on('end-session', withAck(socket, async reply => {
+    try {
+      reply.settle(await roomCommands.endSession(roomId, actor));
+    } catch (error) {
+      console.error('Error ending session:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to end session' });
+    }
+  }));
+
+  socket.on('kick-user', withPayload(socket, targetUserSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.kickUser(roomId, actor, data.targetUserId));
+    } catch (error) {
+      console.error('Error kicking user:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to remove participant' });
+    }
+  }));
+
+  socket.on('ban-user', withPayload(socket, targetUserSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.banUser(roomId, actor, data.targetUserId));
+    } catch (error) {
+      console.error('Error banning user:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to ban participant' });
+    }
+  }));
+
+  socket.on('rename-user', withPayload(socket, userRenameSchema, async (data, reply) => {
+    try {
+      reply.settle(await roomCommands.renameUser(roomId, actor, data.targetUserId, data.name));
+    } catch (error) {
+      console.error('Error renaming user:', error);
+      reply.fail({ code: 'internal-error', message: 'Failed to rename participant' });
+    }
+  }));
+
+  socket.on('disconnect', async () => {
+    // Only sockets that joined the room count towards the user's presence
+    if (!roomService.getUserBySocketId(socket.id)) {
+      return;
+    }
+    roomService.removeSocketMapping(socket.id);
+
+    try {
+      await roomCommands.disconnectUser(roomId, userId, socket.id);
+    } catch (error) {
+      console.error('Error marking user as disconnected:', error);
     }
   });
 
@@ -310,17 +465,36 @@ app.use(errorHandler);
 const PORT = process.env.PORT || 3000;
 
 server.listen(PORT, () => {
+  roomRouter.start();
+  roomRouter.onOwnershipChange(() => timerService.resumeAll());
+  timerService.resumeAll();
+  presenceService.start();
+  roomLifecycle.start();
 });
 
 process.on('SIGTERM', () => {
+  roomRouter.stop();
+  timerService.stopAll();
+  presenceService.stop();
+  roomLifecycle.stop();
+  webhookService.stopAll();
+  roomStreams.stopAll();
+  roomService.flush();
   server.close(() => {
-    process.exit(0);
+    messageBus.close().finally(() => process.exit(0));
   });
 });
 
 process.on('SIGINT', () => {
+  roomRouter.stop();
+  timerService.stopAll();
+  presenceService.stop();
+  roomLifecycle.stop();
+  webhookService.stopAll();
+  roomStreams.stopAll();
+  roomService.flush();
   server.close(() => {
-    process.exit(0);
+    messageBus.close().finally(() => process.exit(0));
   });
 });
 
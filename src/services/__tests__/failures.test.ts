@@ -0,0 +1,80 @@
+import { Response } from 'express';
+import { fail, httpStatusFor, isFailure, toSocketError } from '../failures';
+import { roomService } from '../roomService';
+import { sendFailure } from '../../middleware';
+import { ApiResponse, Deck } from '../../types';
+
+const DECK: Deck = { type: 'fibonacci', cards: ['1', '2', '3', '5', '8'] };
+
+describe('failures', () => {
+  it('map each code to its HTTP status', () => {
+    expect(httpStatusFor('invalid-request')).toBe(400);
+    expect(httpStatusFor('unauthenticated')).toBe(401);
+    expect(httpStatusFor('not-authorized')).toBe(403);
+    expect(httpStatusFor('room-not-found')).toBe(404);
+    expect(httpStatusFor('user-not-found')).toBe(404);
+    expect(httpStatusFor('voting-closed')).toBe(409);
+    expect(httpStatusFor('rate-limited')).toBe(429);
+    expect(httpStatusFor('internal-error')).toBe(500);
+  });
+
+  it('are told apart from successful outcomes', () => {
+    expect(isFailure(fail('room-not-found', 'Room not found'))).toBe(true);
+    expect(isFailure({ success: true })).toBe(false);
+    expect(isFailure({ success: false })).toBe(false);
+  });
+
+  it('keep their code in socket errors', () => {
+    expect(toSocketError(fail('voting-closed', 'Voting is closed'))).toEqual({ code: 'voting-closed', message: 'Voting is closed' });
+  });
+
+  it('are sent with their code and status over REST', () => {
+    const res = { status: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+
+    sendFailure(res as unknown as Response<ApiResponse>, fail('not-authorized', 'Only facilitators can reveal votes'));
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ success: false, code: 'not-authorized', error: 'Only facilitators can reveal votes' });
+  });
+
+  describe('from the room service', () => {
+    let roomId: string;
+    let facilitatorId: string;
+    let voterId: string;
+
+    beforeAll(() => {
+      process.env.SESSION_SECRET = 'test-secret';
+    });
+
+    beforeEach(() => {
+      const created = roomService.createRoom(roomService.generateRoomId(), 'Planning', 'Ann', DECK, undefined);
+      roomId = created.roomId;
+      facilitatorId = created.userId;
+
+      const joined = roomService.joinRoom(roomId, 'Bob');
+      if (!joined.success) {
+        throw new Error(joined.error);
+      }
+      voterId = joined.userId;
+    });
+
+    afterEach(() => {
+      roomService.closeRoom(roomId);
+    });
+
+    it('say why a command was refused', () => {
+      expect(roomService.submitVote('NOROOM', voterId, '5')).toMatchObject({ success: false, code: 'room-not-found' });
+      expect(roomService.submitVote(roomId, 'stranger', '5')).toMatchObject({ success: false, code: 'not-a-member' });
+      expect(roomService.revealVotes(roomId, voterId)).toMatchObject({ success: false, code: 'not-authorized' });
+      expect(roomService.kickUser(roomId, facilitatorId, 'nobody')).toMatchObject({ success: false, code: 'user-not-found' });
+      expect(roomService.submitVote(roomId, voterId, '4')).toMatchObject({ success: false, code: 'invalid-request' });
+    });
+
+    it('refuse votes once they have been revealed', () => {
+      expect(roomService.revealVotes(roomId, facilitatorId)).toEqual({ success: true });
+
+      expect(roomService.submitVote(roomId, voterId, '5')).toMatchObject({ success: false, code: 'voting-closed' });
+    });
+  });
+});
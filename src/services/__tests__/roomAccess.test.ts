@@ -0,0 +1,112 @@
+import { hashPasscode, verifyPasscode } from '../roomAccess';
+import { roomService } from '../roomService';
+import { Deck } from '../../types';
+
+const MINUTE = 60 * 1000;
+const DECK: Deck = { type: 'fibonacci', cards: ['1', '2', '3', '5', '8'] };
+
+describe('room access', () => {
+  beforeAll(() => {
+    process.env.SESSION_SECRET = 'test-secret';
+  });
+
+  describe('passcode hashing', () => {
+    it('verifies the passcode it was made from and nothing else', () => {
+      const stored = hashPasscode('sprint-42');
+
+      expect(stored).not.toContain('sprint-42');
+      expect(verifyPasscode('sprint-42', stored)).toBe(true);
+      expect(verifyPasscode('sprint-43', stored)).toBe(false);
+      expect(verifyPasscode(42, stored)).toBe(false);
+      expect(verifyPasscode('sprint-42', 'not-a-hash')).toBe(false);
+    });
+
+    it('salts each hash', () => {
+      expect(hashPasscode('sprint-42')).not.toBe(hashPasscode('sprint-42'));
+    });
+  });
+
+  describe('protected rooms', () => {
+    let roomId: string;
+    let facilitatorId: string;
+
+    beforeEach(() => {
+      const created = roomService.createRoom(roomService.generateRoomId(), 'Planning', 'Ann', DECK, 'sprint-42');
+      roomId = created.roomId;
+      facilitatorId = created.userId;
+    });
+
+    afterEach(() => {
+      roomService.closeRoom(roomId);
+      jest.useRealTimers();
+    });
+
+    const createInvite = (expiresInMinutes?: number, maxUses?: number): { id: string; token: string } => {
+      const created = roomService.createInvite(roomId, facilitatorId, expiresInMinutes, maxUses);
+      if (!created.success) {
+        throw new Error(created.error);
+      }
+      return { id: created.invite.id, token: created.token };
+    };
+
+    it('needs the correct passcode to join', () => {
+      expect(roomService.isProtected(roomId)).toBe(true);
+      expect(roomService.joinRoom(roomId, 'Bob')).toMatchObject({ success: false, code: 'passcode-required' });
+      expect(roomService.joinRoom(roomId, 'Bob', 'voter', { passcode: 'wrong' })).toMatchObject({ success: false, code: 'passcode-incorrect' });
+      expect(roomService.joinRoom(roomId, 'Bob', 'voter', { passcode: 'sprint-42' })).toMatchObject({ success: true });
+    });
+
+    it('lets anyone join once the passcode is cleared', () => {
+      expect(roomService.setPasscode(roomId, facilitatorId, null)).toEqual({ success: true });
+
+      expect(roomService.isProtected(roomId)).toBe(false);
+      expect(roomService.joinRoom(roomId, 'Bob')).toMatchObject({ success: true });
+    });
+
+    it('only lets the facilitator change the passcode', () => {
+      const joined = roomService.joinRoom(roomId, 'Bob', 'voter', { passcode: 'sprint-42' });
+      if (!joined.success) {
+        throw new Error(joined.error);
+      }
+
+      expect(roomService.setPasscode(roomId, joined.userId, null)).toMatchObject({ success: false, code: 'not-authorized' });
+      expect(roomService.isProtected(roomId)).toBe(true);
+    });
+
+    it('accepts an invite in place of the passcode until its uses run out', () => {
+      const invite = createInvite(undefined, 2);
+
+      expect(roomService.joinRoom(roomId, 'Bob', 'voter', { inviteToken: invite.token })).toMatchObject({ success: true });
+      expect(roomService.joinRoom(roomId, 'Cat', 'voter', { inviteToken: invite.token })).toMatchObject({ success: true });
+      expect(roomService.joinRoom(roomId, 'Dan', 'voter', { inviteToken: invite.token })).toMatchObject({ success: false, code: 'invite-invalid' });
+    });
+
+    it('rejects an invite once it has expired', () => {
+      jest.useFakeTimers();
+      const invite = createInvite(5);
+
+      jest.advanceTimersByTime(5 * MINUTE);
+
+      expect(roomService.joinRoom(roomId, 'Bob', 'voter', { inviteToken: invite.token })).toMatchObject({ success: false, code: 'invite-invalid' });
+    });
+
+    it('does not use up an invite when the join is refused', () => {
+      const invite = createInvite(undefined, 1);
+
+      expect(roomService.joinRoom(roomId, 'Bob', 'facilitator', { inviteToken: invite.token })).toMatchObject({ success: false, code: 'facilitator-taken' });
+      expect(roomService.joinRoom(roomId, 'Bob', 'voter', { inviteToken: invite.token })).toMatchObject({ success: true });
+    });
+
+    it('rejects an invite once it has been revoked', () => {
+      const invite = createInvite();
+
+      expect(roomService.revokeInvite(roomId, facilitatorId, invite.id)).toEqual({ success: true });
+      expect(roomService.revokeInvite(roomId, facilitatorId, invite.id)).toMatchObject({ success: false, code: 'invite-not-found' });
+      expect(roomService.joinRoom(roomId, 'Bob', 'voter', { inviteToken: invite.token })).toMatchObject({ success: false, code: 'invite-invalid' });
+    });
+
+    it('rejects invite tokens it did not issue', () => {
+      expect(roomService.joinRoom(roomId, 'Bob', 'voter', { inviteToken: 'made-up' })).toMatchObject({ success: false, code: 'invite-invalid' });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { roomBroadcaster } from '../../cluster';
+import { roomService } from '../roomService';
+import { timerService } from '../timerService';
+import * as roomCommands from '../roomCommands';
+import { Actor, Deck } from '../../types';
+
+const DECK: Deck = { type: 'fibonacci', cards: ['1', '2', '3', '5', '8'] };
+
+describe('roomCommands', () => {
+  let roomId: string;
+  let facilitator: Actor;
+  let events: string[];
+
+  beforeAll(() => {
+    process.env.SESSION_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    events = [];
+    jest.spyOn(roomBroadcaster, 'toRoom').mockImplementation((target, event) => {
+      events.push(event);
+    });
+
+    const created = roomService.createRoom(roomService.generateRoomId(), 'Planning', 'Ann', DECK, undefined);
+    roomId = created.roomId;
+    facilitator = { userId: created.userId, transport: 'rest' };
+  });
+
+  afterEach(() => {
+    timerService.cancel(roomId);
+    roomService.closeRoom(roomId);
+    jest.restoreAllMocks();
+  });
+
+  describe('startEstimation', () => {
+    it('starts the round and its timer together', async () => {
+      const result = await roomCommands.startEstimation(roomId, facilitator, { durationSeconds: 60 });
+
+      expect(result).toEqual({ success: true });
+      expect(roomService.getRoom(roomId)?.estimationStarted).toBe(true);
+      expect(roomService.getRoom(roomId)?.timer?.durationSeconds).toBe(60);
+      expect(events).toEqual(['estimation-started', 'timer-started']);
+    });
+
+    it('leaves the room as it was when the timer cannot run', async () => {
+      const result = await roomCommands.startEstimation(roomId, facilitator, { durationSeconds: 1 });
+
+      expect(result).toMatchObject({ success: false, code: 'invalid-request' });
+      expect(roomService.getRoom(roomId)?.estimationStarted).toBe(false);
+      expect(roomService.getRoom(roomId)?.timer).toBeNull();
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('leaveRoom', () => {
+    it('hands the role of a leaving facilitator to a connected participant and records it', async () => {
+      const joined = roomService.joinRoom(roomId, 'Bob');
+      if (!joined.success) {
+        throw new Error(joined.error);
+      }
+
+      const result = await roomCommands.leaveRoom(roomId, facilitator);
+
+      expect(result).toEqual({ success: true });
+      expect(roomService.getRoom(roomId)?.facilitatorId).toBe(joined.userId);
+      expect(events).toEqual(['user-left', 'facilitator-failover']);
+      expect(roomService.getRoom(roomId)?.auditLog.map(entry => [entry.action, entry.target?.name, entry.details])).toEqual([
+        ['facilitator-failover', 'Bob', { previousFacilitatorId: facilitator.userId, reason: 'left' }],
+        ['user-left', undefined, undefined]
+      ]);
+    });
+  });
+
+  describe('audit log', () => {
+    const join = async (name: string): Promise<string> => {
+      const joined = await roomCommands.joinRoom(roomId, name, undefined, {}, 'socket');
+      if (!joined.success) {
+        throw new Error(joined.error);
+      }
+      return joined.userId;
+    };
+
+    it('records who did what, over which transport and to whom, oldest first', async () => {
+      const bobId = await join('Bob');
+      await roomCommands.revealVotes(roomId, facilitator);
+      await roomCommands.resetVoting(roomId, { userId: facilitator.userId, transport: 'socket' });
+      await roomCommands.kickUser(roomId, facilitator, bobId);
+
+      const log = roomService.getAuditLog(roomId, facilitator.userId);
+      if (!log.success) {
+        throw new Error(log.error);
+      }
+
+      expect(log.entries.map(({ action, actor, transport, target }) => ({ action, actor, transport, target }))).toEqual([
+        { action: 'user-joined', actor: { id: bobId, name: 'Bob' }, transport: 'socket', target: undefined },
+        { action: 'votes-revealed', actor: { id: facilitator.userId, name: 'Ann' }, transport: 'rest', target: undefined },
+        { action: 'voting-reset', actor: { id: facilitator.userId, name: 'Ann' }, transport: 'socket', target: undefined },
+        { action: 'user-kicked', actor: { id: facilitator.userId, name: 'Ann' }, transport: 'rest', target: { id: bobId, name: 'Bob' } }
+      ]);
+      expect(log.entries.every(entry => entry.at instanceof Date)).toBe(true);
+    });
+
+    it('leaves out commands that were refused', async () => {
+      const bobId = await join('Bob');
+
+      await roomCommands.revealVotes(roomId, { userId: bobId, transport: 'socket' });
+
+      expect(roomService.getRoom(roomId)?.auditLog.map(entry => entry.action)).toEqual(['user-joined']);
+    });
+
+    it('can only be read by facilitators', async () => {
+      const bobId = await join('Bob');
+
+      expect(roomService.getAuditLog(roomId, bobId)).toMatchObject({ success: false, code: 'not-authorized' });
+      expect(roomService.getAuditLog(roomId, 'stranger')).toMatchObject({ success: false, code: 'not-a-member' });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { roomBroadcaster } from '../../cluster';
+import { roomLifecycle } from '../roomLifecycle';
+import { roomService } from '../roomService';
+import * as roomCommands from '../roomCommands';
+import { Deck } from '../../types';
+
+const MINUTE = 60 * 1000;
+const DECK: Deck = { type: 'fibonacci', cards: ['1', '2', '3', '5', '8'] };
+
+describe('roomLifecycle', () => {
+  let roomId: string;
+  let userId: string;
+  let events: string[];
+
+  beforeAll(() => {
+    process.env.SESSION_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    process.env.ROOM_IDLE_MINUTES = '10';
+    process.env.ROOM_EXPIRY_WARNING_MINUTES = '2';
+    process.env.ROOM_SWEEP_SECONDS = '60';
+
+    events = [];
+    jest.spyOn(roomBroadcaster, 'toRoom').mockImplementation((target, event) => {
+      events.push(event);
+    });
+
+    ({ roomId, userId } = roomService.createRoom(roomService.generateRoomId(), 'Planning', 'Ann', DECK, undefined));
+    roomLifecycle.start();
+  });
+
+  afterEach(() => {
+    roomLifecycle.stop();
+    roomService.closeRoom(roomId);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+    delete process.env.ROOM_IDLE_MINUTES;
+    delete process.env.ROOM_EXPIRY_WARNING_MINUTES;
+    delete process.env.ROOM_SWEEP_SECONDS;
+  });
+
+  it('warns once when the room is about to expire', () => {
+    jest.advanceTimersByTime(7 * MINUTE);
+    expect(events).toEqual([]);
+
+    jest.advanceTimersByTime(2 * MINUTE);
+    expect(events).toEqual(['room-expiring']);
+    expect(roomService.getRoom(roomId)).not.toBeNull();
+  });
+
+  it('closes the room once it has been idle for the idle timeout', () => {
+    jest.advanceTimersByTime(10 * MINUTE);
+
+    expect(events).toEqual(['room-expiring', 'room-closed']);
+    expect(roomService.getRoom(roomId)).toBeNull();
+  });
+
+  it('does not count reading the room as activity', () => {
+    jest.advanceTimersByTime(8 * MINUTE);
+    roomService.getRoom(roomId);
+    roomService.getRoomSummary(roomId);
+    roomService.getUsersInRoom(roomId);
+
+    jest.advanceTimersByTime(2 * MINUTE);
+
+    expect(roomService.getRoom(roomId)).toBeNull();
+  });
+
+  it('lifts the warning and postpones expiry when the room is extended', async () => {
+    jest.advanceTimersByTime(8 * MINUTE);
+    const extendedAt = Date.now();
+
+    const result = await roomCommands.extendRoom(roomId, { userId, transport: 'rest' });
+
+    expect(result).toEqual({ success: true, expiresAt: new Date(extendedAt + 10 * MINUTE) });
+    expect(events).toEqual(['room-expiring', 'room-extended']);
+
+    jest.advanceTimersByTime(7 * MINUTE);
+    expect(roomService.getRoom(roomId)).not.toBeNull();
+
+    jest.advanceTimersByTime(3 * MINUTE);
+    expect(events).toEqual(['room-expiring', 'room-extended', 'room-expiring', 'room-closed']);
+    expect(roomService.getRoom(roomId)).toBeNull();
+  });
+
+  it('counts commands in the room as activity', async () => {
+    jest.advanceTimersByTime(8 * MINUTE);
+
+    await roomCommands.submitVote(roomId, { userId, transport: 'rest' }, '5');
+    jest.advanceTimersByTime(2 * MINUTE);
+
+    expect(roomService.getRoom(roomId)).not.toBeNull();
+  });
+});
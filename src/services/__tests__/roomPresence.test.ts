@@ -0,0 +1,67 @@
+import { roomBroadcaster } from '../../cluster';
+import { roomService } from '../roomService';
+import * as roomCommands from '../roomCommands';
+import { Deck } from '../../types';
+
+const DECK: Deck = { type: 'fibonacci', cards: ['1', '2', '3', '5', '8'] };
+
+describe('socket presence', () => {
+  let roomId: string;
+  let userId: string;
+  let events: string[];
+
+  beforeAll(() => {
+    process.env.SESSION_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    events = [];
+    jest.spyOn(roomBroadcaster, 'toRoom').mockImplementation((target, event) => {
+      events.push(event);
+    });
+
+    ({ roomId, userId } = roomService.createRoom(roomService.generateRoomId(), 'Planning', 'Ann', DECK, undefined));
+  });
+
+  afterEach(() => {
+    roomService.closeRoom(roomId);
+    jest.restoreAllMocks();
+  });
+
+  const isConnected = (): boolean | undefined => roomService.getRoom(roomId)?.users.get(userId)?.connected;
+
+  it('keeps a participant connected while any of their sockets is open', async () => {
+    await roomCommands.connectUser(roomId, userId, 'socket-1');
+    await roomCommands.connectUser(roomId, userId, 'socket-2');
+
+    await roomCommands.disconnectUser(roomId, userId, 'socket-1');
+    expect(isConnected()).toBe(true);
+    expect(events).toEqual([]);
+
+    await roomCommands.disconnectUser(roomId, userId, 'socket-2');
+    expect(isConnected()).toBe(false);
+    expect(events).toEqual(['user-disconnected']);
+  });
+
+  it('counts a reconnect that arrives before the old socket closes', async () => {
+    await roomCommands.connectUser(roomId, userId, 'socket-1');
+    await roomCommands.disconnectUser(roomId, userId, 'socket-1');
+    await roomCommands.connectUser(roomId, userId, 'socket-2');
+    await roomCommands.connectUser(roomId, userId, 'socket-3');
+
+    // socket-2 timed out after socket-3 had already connected
+    await roomCommands.disconnectUser(roomId, userId, 'socket-2');
+
+    expect(isConnected()).toBe(true);
+    expect(events).toEqual(['user-disconnected']);
+  });
+
+  it('reports a disconnect only once', async () => {
+    await roomCommands.connectUser(roomId, userId, 'socket-1');
+
+    await roomCommands.disconnectUser(roomId, userId, 'socket-1');
+    await roomCommands.disconnectUser(roomId, userId, 'socket-1');
+
+    expect(events).toEqual(['user-disconnected']);
+  });
+});
@@ -0,0 +1,55 @@
+import { issueSessionToken, issueViewToken, verifySessionToken, verifyViewToken } from '../sessionTokens';
+
+const MINUTE = 60 * 1000;
+
+describe('sessionTokens', () => {
+  beforeAll(() => {
+    process.env.SESSION_SECRET = 'test-secret';
+  });
+
+  describe('session tokens', () => {
+    it('verify to the room and user they were issued for', () => {
+      const claims = verifySessionToken(issueSessionToken('ABC123', 'user-1'));
+
+      expect(claims).toMatchObject({ roomId: 'ABC123', userId: 'user-1' });
+    });
+
+    it('are rejected when the claims or signature have been changed', () => {
+      const token = issueSessionToken('ABC123', 'user-1');
+      const [payload, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ roomId: 'ABC123', userId: 'user-2', iat: Date.now() })).toString('base64url');
+      const tampered = signature.slice(0, -1) + (signature.endsWith('A') ? 'B' : 'A');
+
+      expect(verifySessionToken(`${forged}.${signature}`)).toBeNull();
+      expect(verifySessionToken(`${payload}.${tampered}`)).toBeNull();
+      expect(verifySessionToken(payload)).toBeNull();
+      expect(verifySessionToken('not-a-token')).toBeNull();
+    });
+
+    it('do not accept view tokens', () => {
+      const token = issueViewToken('ABC123', 'nonce', new Date(Date.now() + MINUTE));
+
+      expect(verifySessionToken(token)).toBeNull();
+    });
+  });
+
+  describe('view tokens', () => {
+    it('verify until they expire', () => {
+      jest.useFakeTimers();
+      try {
+        const token = issueViewToken('ABC123', 'nonce', new Date(Date.now() + MINUTE));
+
+        expect(verifyViewToken(token)).toMatchObject({ roomId: 'ABC123', scope: 'view', nonce: 'nonce' });
+
+        jest.advanceTimersByTime(MINUTE);
+        expect(verifyViewToken(token)).toBeNull();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('do not accept session tokens', () => {
+      expect(verifyViewToken(issueSessionToken('ABC123', 'user-1'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { parseCsv, parseStoryImport } from '../storyImport';
+
+describe('parseCsv', () => {
+  it('takes the delimiter from the header line', () => {
+    expect(parseCsv('title,key\nLogin,A-1\n').map(r => r.values)).toEqual([['title', 'key'], ['Login', 'A-1']]);
+    expect(parseCsv('title;key\nLogin, page;A-1\n').map(r => r.values)).toEqual([['title', 'key'], ['Login, page', 'A-1']]);
+    expect(parseCsv('title\tkey\nLogin; page\tA-1\n').map(r => r.values)).toEqual([['title', 'key'], ['Login; page', 'A-1']]);
+  });
+
+  it('reads delimiters, newlines and doubled quotes inside quoted fields', () => {
+    const records = parseCsv('title,description\n"Login, SSO","First line\nsecond ""quoted"" line"\n');
+
+    expect(records.map(r => r.values)).toEqual([
+      ['title', 'description'],
+      ['Login, SSO', 'First line\nsecond "quoted" line']
+    ]);
+  });
+
+  it('handles a byte order mark, CRLF line endings and a missing final newline', () => {
+    expect(parseCsv('\uFEFFtitle,key\r\nLogin,A-1\r\nLogout,A-2').map(r => r.values)).toEqual([
+      ['title', 'key'],
+      ['Login', 'A-1'],
+      ['Logout', 'A-2']
+    ]);
+  });
+
+  it('numbers records by the line they start on, counting skipped blank lines and quoted newlines', () => {
+    const records = parseCsv('title,description\n\nLogin,"Two\r\nlines"\r\n  ,  \nLogout,\n');
+
+    expect(records.map(r => [r.line, r.values[0]])).toEqual([[1, 'title'], [3, 'Login'], [6, 'Logout']]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCsv('title\n"Login\n')).toThrow('Unterminated quoted field');
+  });
+});
+
+describe('parseStoryImport', () => {
+  it('maps tracker column names onto story fields', () => {
+    const csv = 'Issue Key,Summary,Description,URL\nPROJ-1,Login page,Users sign in,https://tracker.example.com/PROJ-1\n';
+
+    expect(parseStoryImport('csv', csv)).toEqual({
+      rows: [{
+        row: 2,
+        story: {
+          title: 'Login page',
+          description: 'Users sign in',
+          externalKey: 'PROJ-1',
+          link: 'https://tracker.example.com/PROJ-1'
+        }
+      }],
+      rejected: []
+    });
+  });
+
+  it('reports rejected CSV rows by their line in the file', () => {
+    const csv = [
+      'title,description,key,link',
+      'Login,"Spans',
+      'two lines",A-1,',
+      '',
+      ',No title,A-2,',
+      'Logout,,A-1,',
+      'Search,,A-3,ftp://example.com'
+    ].join('\n');
+
+    const result = parseStoryImport('csv', csv);
+
+    expect(result.rows.map(r => [r.row, r.story.title])).toEqual([[2, 'Login']]);
+    expect(result.rejected).toEqual([
+      { row: 5, reason: 'Title is required' },
+      { row: 6, reason: 'Duplicate external key \'A-1\' in import' },
+      { row: 7, reason: 'Link must be an http or https URL' }
+    ]);
+  });
+
+  it('numbers JSON rows by their position in the array', () => {
+    const result = parseStoryImport('json', { stories: [{ title: 'Login' }, { description: 'No title' }, { title: 'Logout' }] });
+
+    expect(result.rows.map(r => [r.row, r.story.title])).toEqual([[1, 'Login'], [3, 'Logout']]);
+    expect(result.rejected).toEqual([{ row: 2, reason: 'Title is required' }]);
+  });
+
+  it('fails on payloads that are not a story list', () => {
+    expect(parseStoryImport('csv', { title: 'Login' }).error).toBe('CSV data must be sent as text');
+    expect(parseStoryImport('csv', 'title\n"Login').error).toBe('Could not parse CSV: Unterminated quoted field');
+    expect(parseStoryImport('csv', 'title\n\n').error).toBe('No stories found');
+    expect(parseStoryImport('json', { title: 'Login' }).error).toBe('JSON data must be an array of stories or { "stories": [...] }');
+  });
+
+  it('limits the number of stories in one import', () => {
+    const csv = ['title', ...Array.from({ length: 501 }, (_, i) => `Story ${i}`)].join('\n');
+
+    expect(parseStoryImport('csv', csv).error).toBe('Cannot import more than 500 stories at once');
+  });
+});
@@ -0,0 +1,115 @@
+import { calculateVotingStatistics, CastVote, isNumericDeck } from '../votingStats';
+import { COFFEE_CARD, DECK_PRESETS, QUESTION_CARD } from '../decks';
+import { Deck } from '../../types';
+
+const fibonacci: Deck = { type: 'fibonacci', cards: [...DECK_PRESETS['fibonacci']] };
+const tShirt: Deck = { type: 't-shirt', cards: [...DECK_PRESETS['t-shirt']] };
+
+const votes = (...estimates: string[]): CastVote[] =>
+  estimates.map((estimate, index) => ({ userId: `user-${index + 1}`, name: `Voter ${index + 1}`, estimate }));
+
+describe('isNumericDeck', () => {
+  it('ignores the special cards', () => {
+    expect(isNumericDeck(fibonacci)).toBe(true);
+    expect(isNumericDeck(tShirt)).toBe(false);
+  });
+});
+
+describe('calculateVotingStatistics', () => {
+  it('reports consensus when every estimate is the same', () => {
+    const stats = calculateVotingStatistics(votes('5', '5', '5'), fibonacci);
+
+    expect(stats.consensus).toBe(true);
+    expect(stats.nearConsensus).toBe(false);
+    expect(stats.spread).toBe(0);
+    expect(stats.mode).toEqual(['5']);
+    expect(stats.mean).toBe(5);
+    expect(stats.median).toBe(5);
+    expect(stats.outliers).toEqual({ highest: [], lowest: [] });
+  });
+
+  it('treats a single voter as consensus', () => {
+    const stats = calculateVotingStatistics(votes('8'), fibonacci);
+
+    expect(stats.consensus).toBe(true);
+    expect(stats.estimateVotes).toBe(1);
+    expect(stats.spread).toBe(0);
+    expect(stats.distribution).toEqual([{ estimate: '8', count: 1, percentage: 100 }]);
+  });
+
+  it('reports near consensus for neighbouring cards', () => {
+    const stats = calculateVotingStatistics(votes('3', '5', '5'), fibonacci);
+
+    expect(stats.consensus).toBe(false);
+    expect(stats.nearConsensus).toBe(true);
+    expect(stats.spread).toBe(1);
+  });
+
+  it('names the voters at both ends of a wide spread', () => {
+    const stats = calculateVotingStatistics(votes('1', '5', '13'), fibonacci);
+
+    expect(stats.nearConsensus).toBe(false);
+    expect(stats.spread).toBe(5);
+    expect(stats.mean).toBe(6.33);
+    expect(stats.median).toBe(5);
+    expect(stats.outliers.highest).toEqual([{ userId: 'user-3', name: 'Voter 3', estimate: '13' }]);
+    expect(stats.outliers.lowest).toEqual([{ userId: 'user-1', name: 'Voter 1', estimate: '1' }]);
+  });
+
+  it('averages the two middle values for an even number of votes', () => {
+    const stats = calculateVotingStatistics(votes('2', '3'), fibonacci);
+
+    expect(stats.median).toBe(2.5);
+    expect(stats.mean).toBe(2.5);
+  });
+
+  it('lists every tied card as the mode, in deck order', () => {
+    const stats = calculateVotingStatistics(votes('8', '3', '5', '8', '3'), fibonacci);
+
+    expect(stats.mode).toEqual(['3', '8']);
+  });
+
+  it('counts special cards in the distribution but as abstentions everywhere else', () => {
+    const stats = calculateVotingStatistics(votes('3', QUESTION_CARD, '3', COFFEE_CARD), fibonacci);
+
+    expect(stats.distribution.map(entry => entry.estimate)).toEqual(['3', QUESTION_CARD, COFFEE_CARD]);
+    expect(stats.distribution[0].percentage).toBe(50);
+    expect(stats.estimateVotes).toBe(2);
+    expect(stats.abstentions).toBe(2);
+    expect(stats.mode).toEqual(['3']);
+    expect(stats.mean).toBe(3);
+    expect(stats.consensus).toBe(true);
+  });
+
+  it('has no consensus, averages or spread when everyone abstains', () => {
+    const stats = calculateVotingStatistics(votes(QUESTION_CARD, QUESTION_CARD), fibonacci);
+
+    expect(stats.estimateVotes).toBe(0);
+    expect(stats.abstentions).toBe(2);
+    expect(stats.consensus).toBe(false);
+    expect(stats.nearConsensus).toBe(false);
+    expect(stats.mean).toBeNull();
+    expect(stats.median).toBeNull();
+    expect(stats.mode).toEqual([]);
+    expect(stats.spread).toBeNull();
+    expect(stats.outliers).toEqual({ highest: [], lowest: [] });
+  });
+
+  it('ranks T-shirt sizes by their position in the deck', () => {
+    const stats = calculateVotingStatistics(votes('L', 'S', 'M'), tShirt);
+
+    expect(stats.mean).toBeNull();
+    expect(stats.median).toBeNull();
+    expect(stats.spread).toBe(2);
+    expect(stats.distribution.map(entry => entry.estimate)).toEqual(['S', 'M', 'L']);
+    expect(stats.outliers.highest.map(voter => voter.estimate)).toEqual(['L']);
+    expect(stats.outliers.lowest.map(voter => voter.estimate)).toEqual(['S']);
+  });
+
+  it('reports near consensus for neighbouring T-shirt sizes', () => {
+    const stats = calculateVotingStatistics(votes('M', 'L'), tShirt);
+
+    expect(stats.nearConsensus).toBe(true);
+    expect(stats.spread).toBe(1);
+  });
+});
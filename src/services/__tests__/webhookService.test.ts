@@ -0,0 +1,38 @@
+import { webhookService } from '../webhookService';
+
+describe('webhookService.checkTarget', () => {
+  it('accepts public addresses', async () => {
+    expect(await webhookService.checkTarget('https://93.184.215.14/hooks')).toEqual({ success: true });
+    expect(await webhookService.checkTarget('https://[2606:4700::1111]/hooks')).toEqual({ success: true });
+  });
+
+  it('rejects loopback, link-local, private and unique-local addresses', async () => {
+    const urls = [
+      'http://localhost:3000/hooks',
+      'http://127.0.0.1/hooks',
+      'http://0.0.0.0/hooks',
+      'http://10.1.2.3/hooks',
+      'http://172.16.0.1/hooks',
+      'http://192.168.1.1/hooks',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/hooks',
+      'http://[fd12:3456::1]/hooks',
+      'http://[fe80::1]/hooks',
+      'http://[::ffff:127.0.0.1]/hooks'
+    ];
+
+    for (const url of urls) {
+      expect(await webhookService.checkTarget(url)).toEqual({
+        success: false,
+        code: 'invalid-request',
+        error: 'Webhooks cannot be sent to loopback, link-local or private addresses'
+      });
+    }
+  });
+
+  it('rejects hosts that do not resolve', async () => {
+    const result = await webhookService.checkTarget('https://hooks.invalid/events');
+
+    expect(result).toEqual({ success: false, code: 'invalid-request', error: 'Webhook host hooks.invalid could not be resolved' });
+  });
+});
@@ -0,0 +1,60 @@
+import { Deck, DeckRequest, PresetDeckType } from '../types';
+
+export const QUESTION_CARD = '?';
+export const COFFEE_CARD = '☕';
+
+// Cards that are not an estimate, e.g. "not sure" or "I need a break"
+export const SPECIAL_CARDS = [QUESTION_CARD, COFFEE_CARD];
+
+const MAX_CUSTOM_CARDS = 30;
+const MAX_CARD_LENGTH = 10;
+
+export const DECK_PRESETS: Record<PresetDeckType, string[]> = {
+  'fibonacci': ['0', '1', '2', '3', '5', '8', '13', '21', '34', '55', '89', QUESTION_CARD, COFFEE_CARD],
+  'modified-fibonacci': ['0', '0.5', '1', '2', '3', '5', '8', '13', '20', '40', '100', QUESTION_CARD, COFFEE_CARD],
+  't-shirt': ['XS', 'S', 'M', 'L', 'XL', 'XXL', QUESTION_CARD, COFFEE_CARD],
+  'powers-of-two': ['0', '1', '2', '4', '8', '16', '32', '64', QUESTION_CARD, COFFEE_CARD]
+};
+
+export const DEFAULT_DECK_TYPE: PresetDeckType = 'modified-fibonacci';
+
+export const getDefaultDeck = (): Deck => ({
+  type: DEFAULT_DECK_TYPE,
+  cards: [...DECK_PRESETS[DEFAULT_DECK_TYPE]]
+});
+
+// Build a deck from a preset name or a custom list of cards
+export const resolveDeck = (request: DeckRequest): { deck?: Deck; error?: string } => {
+  if (!request || !request.type) {
+    return { error: 'Deck type is required' };
+  }
+
+  if (request.type !== 'custom') {
+    const cards = DECK_PRESETS[request.type];
+    if (!cards) {
+      return { error: `Unknown deck type '${request.type}'` };
+    }
+    return { deck: { type: request.type, cards: [...cards] } };
+  }
+
+  if (!Array.isArray(request.cards) || request.cards.length === 0) {
+    return { error: 'Custom deck must contain at least one card' };
+  }
+
+  if (request.cards.length > MAX_CUSTOM_CARDS) {
+    return { error: `Custom deck cannot have more than ${MAX_CUSTOM_CARDS} cards` };
+  }
+
+  const cards = request.cards.map(card => (typeof card === 'string' ? card.trim() : ''));
+  if (cards.some(card => card.length === 0 || card.length > MAX_CARD_LENGTH)) {
+    return { error: `Cards must be between 1 and ${MAX_CARD_LENGTH} characters` };
+  }
+
+  if (new Set(cards).size !== cards.length) {
+    return { error: 'Custom deck cannot contain duplicate cards' };
+  }
+
+  return { deck: { type: 'custom', cards } };
+};
+
+export const isCardInDeck = (deck: Deck, card: string): boolean => deck.cards.includes(card);
@@ -0,0 +1,36 @@
+import { ErrorCode, Failure, SocketError } from '../types';
+
+const HTTP_STATUS: Record<ErrorCode, number> = {
+  'invalid-request': 400,
+  'unauthenticated': 401,
+  'passcode-required': 401,
+  'passcode-incorrect': 401,
+  'invite-invalid': 401,
+  'not-authorized': 403,
+  'not-a-member': 403,
+  'banned': 403,
+  'room-not-found': 404,
+  'user-not-found': 404,
+  'story-not-found': 404,
+  'invite-not-found': 404,
+  'webhook-not-found': 404,
+  'route-not-found': 404,
+  'voting-closed': 409,
+  'timer-not-running': 409,
+  'facilitator-taken': 409,
+  'limit-reached': 409,
+  'rate-limited': 429,
+  'internal-error': 500
+};
+
+export const fail = (code: ErrorCode, error: string): Failure => ({ success: false, code, error });
+
+export const isFailure = (value: object): value is Failure =>
+  (value as Partial<Failure>).success === false && typeof (value as Partial<Failure>).code === 'string';
+
+export const httpStatusFor = (code: ErrorCode): number => HTTP_STATUS[code];
+
+export const toSocketError = (failure: Failure): SocketError => ({
+  code: failure.code,
+  message: failure.error
+});
@@ -0,0 +1,121 @@
+// Counters and latency histograms in the Prometheus text format. Gauges such
+// as the number of rooms are read when the metrics are scraped.
+
+type Labels = Record<string, string>;
+
+export type CounterName =
+  | 'spp_votes_total'
+  | 'spp_reveals_total'
+  | 'spp_resets_total'
+  | 'spp_rooms_cleaned_up_total'
+  | 'spp_socket_events_total';
+
+export interface GaugeSample {
+  labels?: Labels;
+  value: number;
+}
+
+export interface Gauge {
+  name: string;
+  help: string;
+  samples: GaugeSample[];
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+const COUNTER_HELP: Record<CounterName, string> = {
+  spp_votes_total: 'Votes submitted',
+  spp_reveals_total: 'Rounds whose votes were revealed',
+  spp_resets_total: 'Rounds reset by a facilitator',
+  spp_rooms_cleaned_up_total: 'Rooms removed after being inactive',
+  spp_socket_events_total: 'Socket events received from clients, by event name'
+};
+
+const REQUEST_DURATION = 'spp_http_request_duration_seconds';
+
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels = {}): string => {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const labelKey = (labels: Labels): string => JSON.stringify(Object.entries(labels).sort());
+
+class MetricsService {
+  private readonly DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+  private counters = new Map<CounterName, Map<string, { labels: Labels; value: number }>>();
+  private requestDurations = new Map<string, HistogramSeries>();
+
+  increment(name: CounterName, labels: Labels = {}): void {
+    const series = this.counters.get(name) || new Map<string, { labels: Labels; value: number }>();
+    const key = labelKey(labels);
+    const sample = series.get(key) || { labels, value: 0 };
+    sample.value += 1;
+    series.set(key, sample);
+    this.counters.set(name, series);
+  }
+
+  observeRequest(method: string, route: string, status: number, seconds: number): void {
+    const labels = { method, route, status: String(status) };
+    const key = labelKey(labels);
+    const series = this.requestDurations.get(key) || {
+      labels,
+      buckets: this.DURATION_BUCKETS.map(() => 0),
+      sum: 0,
+      count: 0
+    };
+
+    this.DURATION_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) {
+        series.buckets[index] += 1;
+      }
+    });
+    series.sum += seconds;
+    series.count += 1;
+    this.requestDurations.set(key, series);
+  }
+
+  render(gauges: Gauge[]): string {
+    const lines: string[] = [];
+
+    gauges.forEach(gauge => {
+      lines.push(`# HELP ${gauge.name} ${gauge.help}`, `# TYPE ${gauge.name} gauge`);
+      gauge.samples.forEach(sample => lines.push(`${gauge.name}${formatLabels(sample.labels)} ${sample.value}`));
+    });
+
+    (Object.keys(COUNTER_HELP) as CounterName[]).forEach(name => {
+      lines.push(`# HELP ${name} ${COUNTER_HELP[name]}`, `# TYPE ${name} counter`);
+      const series = this.counters.get(name);
+      if (!series) {
+        // Counters without labels start at zero so alerts can use them straight away
+        if (name !== 'spp_socket_events_total') {
+          lines.push(`${name} 0`);
+        }
+        return;
+      }
+      series.forEach(sample => lines.push(`${name}${formatLabels(sample.labels)} ${sample.value}`));
+    });
+
+    lines.push(`# HELP ${REQUEST_DURATION} REST request latency by route`, `# TYPE ${REQUEST_DURATION} histogram`);
+    this.requestDurations.forEach(series => {
+      series.buckets.forEach((count, index) => {
+        const labels = { ...series.labels, le: String(this.DURATION_BUCKETS[index]) };
+        lines.push(`${REQUEST_DURATION}_bucket${formatLabels(labels)} ${count}`);
+      });
+      lines.push(`${REQUEST_DURATION}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${REQUEST_DURATION}_sum${formatLabels(series.labels)} ${series.sum}`);
+      lines.push(`${REQUEST_DURATION}_count${formatLabels(series.labels)} ${series.count}`);
+    });
+
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+export const metrics = new MetricsService();
@@ -0,0 +1,77 @@
+import { roomRouter } from '../cluster';
+import { roomService } from './roomService';
+import { notifyFacilitatorFailover, notifyUserRemoved, revealIfAllVoted } from './roomEvents';
+
+// Periodically removes participants whose sockets have been gone for longer
+// than the grace period, and moves the facilitator role away from a
+// facilitator who has been disconnected for too long. Each instance looks
+// after the rooms it owns.
+class PresenceService {
+  private readonly SWEEP_INTERVAL = 5 * 1000; // 5 seconds
+  private readonly DEFAULT_GRACE_SECONDS = 10 * 60; // 10 minutes
+  private readonly DEFAULT_FAILOVER_SECONDS = 2 * 60; // 2 minutes
+  private interval: NodeJS.Timeout | null = null;
+  private gracePeriodMs = 0;
+  private failoverThresholdMs = 0;
+
+  // DISCONNECT_GRACE_SECONDS and FACILITATOR_FAILOVER_SECONDS configure the
+  // two thresholds; 0 turns either one off
+  start(): void {
+    this.stop();
+
+    this.gracePeriodMs = this.readSeconds('DISCONNECT_GRACE_SECONDS', this.DEFAULT_GRACE_SECONDS) * 1000;
+    this.failoverThresholdMs = this.readSeconds('FACILITATOR_FAILOVER_SECONDS', this.DEFAULT_FAILOVER_SECONDS) * 1000;
+
+    if (this.gracePeriodMs > 0 || this.failoverThresholdMs > 0) {
+      this.interval = setInterval(() => this.sweep(), this.SWEEP_INTERVAL);
+    }
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private sweep(): void {
+    roomService.getAllRooms().filter(room => roomRouter.owns(room.id)).forEach(room => {
+      try {
+        // Fail over first, so the handover is announced with its own event
+        // rather than only through the facilitator's removal
+        if (this.failoverThresholdMs > 0) {
+          const failover = roomService.failoverFacilitator(room.id, this.failoverThresholdMs);
+          if (failover) {
+            notifyFacilitatorFailover(room.id, failover);
+          }
+        }
+
+        if (this.gracePeriodMs > 0) {
+          const removed = roomService.removeDisconnectedUsers(room.id, this.gracePeriodMs);
+          removed.forEach(userId => notifyUserRemoved(room.id, userId, 'disconnected'));
+          if (removed.length > 0) {
+            revealIfAllVoted(room.id);
+          }
+        }
+      } catch (error) {
+        console.error(`Error checking presence in room ${room.id}:`, error);
+      }
+    });
+  }
+
+  private readSeconds(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw === '') {
+      return fallback;
+    }
+
+    const seconds = Number(raw);
+    if (!Number.isFinite(seconds) || seconds < 0) {
+      console.warn(`${name} must be a number of seconds - using ${fallback}`);
+      return fallback;
+    }
+    return seconds;
+  }
+}
+
+export const presenceService = new PresenceService();
@@ -0,0 +1,15 @@
+import { User, UserRole } from '../types';
+
+// Roles a participant can pick when joining a room
+export const JOINABLE_ROLES: UserRole[] = ['facilitator', 'voter', 'observer'];
+
+// Roles the facilitator can assign to other participants; the facilitator
+// role itself only moves through an explicit transfer
+export const ASSIGNABLE_ROLES: UserRole[] = ['co-facilitator', 'voter', 'observer'];
+
+// Facilitators and co-facilitators run the session: stories, decks, reveals and resets
+export const canFacilitate = (user: User): boolean =>
+  user.role === 'facilitator' || user.role === 'co-facilitator';
+
+// Everyone except observers estimates
+export const canVote = (user: User): boolean => user.role !== 'observer';
@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+
+const KEY_LENGTH = 32;
+
+// Stored as "<salt>:<scrypt hash>", both hex, so the passcode itself is never persisted
+export const hashPasscode = (passcode: string): string => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(passcode, salt, KEY_LENGTH).toString('hex');
+  return `${salt}:${hash}`;
+};
+
+export const verifyPasscode = (passcode: unknown, stored: string): boolean => {
+  if (typeof passcode !== 'string') {
+    return false;
+  }
+
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(passcode, salt, KEY_LENGTH);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+export const generateInviteToken = (): string => crypto.randomBytes(24).toString('base64url');
+
+export const generateViewTokenNonce = (): string => crypto.randomBytes(16).toString('base64url');
+
+// Invites store a digest of their token, so a leaked snapshot cannot be used to join
+export const hashInviteToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
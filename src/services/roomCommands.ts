@@ -0,0 +1,504 @@
+import { roomBroadcaster, roomRouter } from '../cluster';
+import { roomService } from './roomService';
+import { timerService } from './timerService';
+import { roomLifecycle } from './roomLifecycle';
+import { resolveDeck } from './decks';
+import { fail, isFailure } from './failures';
+import { metrics } from './metrics';
+import { webhookService } from './webhookService';
+import {
+  notifyBacklogUpdated,
+  notifyFacilitatorFailover,
+  notifyRolesUpdated,
+  notifyRoomClosed,
+  notifySettingsUpdated,
+  notifyStoryEstimated,
+  notifyTimerStarted,
+  notifyTimerStopped,
+  notifyUserJoined,
+  notifyUserRemoved,
+  notifyUserRenamed,
+  notifyVotesRevealed,
+  revealIfAllVoted
+} from './roomEvents';
+import {
+  Actor,
+  AuditAction,
+  AuditDetails,
+  Deck,
+  DeckRequest,
+  InviteSummary,
+  NewStory,
+  Outcome,
+  RoomSettings,
+  Story,
+  StoryImportResult,
+  TimerStartRequest,
+  Transport,
+  UserRole,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent
+} from '../types';
+
+// Every state change a participant can make, whichever transport it arrives
+// on. Each command updates the room and then sends the same room events, so
+// REST clients and socket clients see identical behaviour. Commands run on the
+// instance that owns the room (see RoomRouter), so they return promises.
+
+interface AuditOptions<T extends object> {
+  // The participant the command is aimed at
+  targetUserId?: string;
+  details?: AuditDetails | ((result: { success: true } & T) => AuditDetails);
+}
+
+// Run a command and add it to the room's audit log if it succeeds. Names are
+// read first because the command may take the actor or target out of the room.
+const audited = <T extends object>(roomId: string, actor: Actor, action: AuditAction, command: () => Outcome<T>, options: AuditOptions<T> = {}): Outcome<T> => {
+  const { targetUserId, details } = options;
+  const actorName = roomService.getUserName(roomId, actor.userId);
+  const targetName = targetUserId ? roomService.getUserName(roomId, targetUserId) : null;
+
+  const result = command();
+  if (result.success) {
+    roomService.recordAudit(roomId, {
+      action,
+      actor: { id: actor.userId, name: actorName || roomService.getUserName(roomId, actor.userId) || '' },
+      transport: actor.transport,
+      ...(targetUserId ? { target: { id: targetUserId, name: targetName || '' } } : {}),
+      ...(details ? { details: typeof details === 'function' ? details(result) : details } : {})
+    });
+  }
+  return result;
+};
+
+// Run a story command that may move the room to another story, which starts
+// a fresh round
+const withBacklogUpdate = (roomId: string, command: () => Outcome): Outcome => {
+  const previousStoryId = roomService.getRoom(roomId)?.currentStoryId ?? null;
+  const result = command();
+  if (result.success) {
+    const storyChanged = roomService.getRoom(roomId)?.currentStoryId !== previousStoryId;
+    notifyBacklogUpdated(roomId, storyChanged, storyChanged);
+  }
+  return result;
+};
+
+const createRoomHere = roomRouter.route('createRoom', (
+  roomId: string,
+  name: string,
+  adminName: string,
+  deck: Deck,
+  passcode: string | undefined,
+  transport: Transport
+): { roomId: string; userId: string; token: string } => {
+  const created = roomService.createRoom(roomId, name, adminName, deck, passcode);
+  roomService.recordAudit(created.roomId, {
+    action: 'room-created',
+    actor: { id: created.userId, name: adminName },
+    transport
+  });
+  return created;
+});
+
+// The room ID is picked first so the room is created by its owner
+export const createRoom = (name: string, adminName: string, deck: Deck, passcode: string | undefined, transport: Transport): Promise<{ roomId: string; userId: string; token: string }> =>
+  createRoomHere(roomService.generateRoomId(), name, adminName, deck, passcode, transport);
+
+export const joinRoom = roomRouter.route('joinRoom', (
+  roomId: string,
+  userName: string,
+  role: UserRole | undefined,
+  credentials: { passcode?: string; inviteToken?: string },
+  transport: Transport
+): Outcome<{ userId: string; token: string }> => {
+  const result = roomService.joinRoom(roomId, userName, role, credentials);
+  if (result.success) {
+    roomService.recordAudit(roomId, {
+      action: 'user-joined',
+      actor: { id: result.userId, name: roomService.getUserName(roomId, result.userId) || userName },
+      transport,
+      details: { role: role || 'voter', viaInvite: !!credentials.inviteToken }
+    });
+    notifyUserJoined(roomId, result.userId);
+  }
+  return result;
+});
+
+export const leaveRoom = roomRouter.route('leaveRoom', (roomId: string, actor: Actor): Outcome => {
+  const result = audited(roomId, actor, 'user-left', () => roomService.leaveRoom(roomId, actor.userId));
+  if (!result.success) {
+    return result;
+  }
+
+  roomBroadcaster.removeUserFromRoom(actor.userId, roomId);
+  roomBroadcaster.toRoom(roomId, 'user-left', {
+    userId: actor.userId,
+    room: roomService.getRoomSummary(roomId),
+    users: roomService.getUsersInRoom(roomId)
+  });
+  if (result.failover) {
+    notifyFacilitatorFailover(roomId, result.failover);
+  }
+  revealIfAllVoted(roomId);
+  return { success: true };
+});
+
+// Start a round, optionally time-boxed straight away
+export const startEstimation = roomRouter.route('startEstimation', (roomId: string, actor: Actor, timer?: Partial<TimerStartRequest>): Outcome => {
+  // Checked before anything changes, so a round never starts without the
+  // timer it was asked for
+  if (timer?.durationSeconds) {
+    const duration = roomService.checkTimerDuration(timer.durationSeconds);
+    if (isFailure(duration)) {
+      return duration;
+    }
+  }
+
+  const result = audited(roomId, actor, 'estimation-started', () => roomService.startEstimation(roomId, actor.userId), {
+    details: timer?.durationSeconds ? { durationSeconds: timer.durationSeconds } : undefined
+  });
+  if (!result.success) {
+    return result;
+  }
+
+  timerService.cancel(roomId);
+  roomBroadcaster.toRoom(roomId, 'estimation-started', {
+    users: roomService.getUsersInRoom(roomId),
+    results: roomService.getVotingResults(roomId)
+  });
+
+  if (timer?.durationSeconds) {
+    return startTimerHere(roomId, actor, timer.durationSeconds, !!timer.autoReveal);
+  }
+  return result;
+});
+
+export const submitVote = roomRouter.route('submitVote', (roomId: string, actor: Actor, estimate: string): Outcome => {
+  const result = roomService.submitVote(roomId, actor.userId, estimate);
+  if (result.success) {
+    metrics.increment('spp_votes_total');
+    roomBroadcaster.toRoom(roomId, 'vote-submitted', {
+      userId: actor.userId,
+      users: roomService.getUsersInRoom(roomId),
+      results: roomService.getVotingResults(roomId)
+    });
+    revealIfAllVoted(roomId);
+  }
+  return result;
+});
+
+export const setDeck = roomRouter.route('setDeck', (roomId: string, actor: Actor, request: DeckRequest): Outcome => {
+  const { deck, error } = resolveDeck(request);
+  if (!deck) {
+    return fail('invalid-request', error || 'Invalid deck');
+  }
+
+  const result = roomService.setDeck(roomId, actor.userId, deck);
+  if (result.success) {
+    // Votes were cleared along with the old deck
+    roomBroadcaster.toRoom(roomId, 'deck-updated', {
+      deck,
+      room: roomService.getRoomSummary(roomId)
+    });
+    roomBroadcaster.toRoom(roomId, 'voting-reset', {
+      users: roomService.getUsersInRoom(roomId),
+      results: roomService.getVotingResults(roomId)
+    });
+  }
+  return result;
+});
+
+export const revealVotes = roomRouter.route('revealVotes', (roomId: string, actor: Actor): Outcome => {
+  const result = audited(roomId, actor, 'votes-revealed', () => roomService.revealVotes(roomId, actor.userId));
+  if (result.success) {
+    timerService.cancel(roomId);
+    notifyVotesRevealed(roomId);
+  }
+  return result;
+});
+
+export const resetVoting = roomRouter.route('resetVoting', (roomId: string, actor: Actor): Outcome => {
+  const result = audited(roomId, actor, 'voting-reset', () => roomService.resetVoting(roomId, actor.userId));
+  if (result.success) {
+    metrics.increment('spp_resets_total');
+    timerService.cancel(roomId);
+    roomBroadcaster.toRoom(roomId, 'voting-reset', {
+      users: roomService.getUsersInRoom(roomId),
+      results: roomService.getVotingResults(roomId)
+    });
+  }
+  return result;
+});
+
+export const updateSettings = roomRouter.route('updateSettings', (roomId: string, actor: Actor, settings: Partial<RoomSettings>): Outcome => {
+  const result = roomService.updateSettings(roomId, actor.userId, settings);
+  if (result.success) {
+    notifySettingsUpdated(roomId);
+    revealIfAllVoted(roomId);
+  }
+  return result;
+});
+
+export const setPasscode = roomRouter.route('setPasscode', (roomId: string, actor: Actor, passcode: string | null): Outcome => {
+  const result = roomService.setPasscode(roomId, actor.userId, passcode);
+  if (result.success) {
+    notifySettingsUpdated(roomId);
+  }
+  return result;
+});
+
+const startTimerHere = (roomId: string, actor: Actor, durationSeconds: number, autoReveal: boolean = false): Outcome => {
+  const result = roomService.startTimer(roomId, actor.userId, durationSeconds, autoReveal);
+  if (result.success) {
+    timerService.schedule(roomId);
+    notifyTimerStarted(roomId);
+  }
+  return result;
+};
+
+export const startTimer = roomRouter.route('startTimer', startTimerHere);
+
+export const stopTimer = roomRouter.route('stopTimer', (roomId: string, actor: Actor): Outcome => {
+  const result = roomService.stopTimer(roomId, actor.userId);
+  if (result.success) {
+    timerService.cancel(roomId);
+    notifyTimerStopped(roomId);
+  }
+  return result;
+});
+
+export const updateStory = roomRouter.route('updateStory', (roomId: string, actor: Actor, story: { title: string; description: string }): Outcome => {
+  const result = audited(roomId, actor, 'story-updated', () => roomService.updateStory(roomId, actor.userId, story), {
+    details: { title: story.title }
+  });
+  if (result.success) {
+    notifyBacklogUpdated(roomId, true);
+  }
+  return result;
+});
+
+export const addStory = roomRouter.route('addStory', (roomId: string, actor: Actor, title: string, description: string = ''): Outcome<{ story: Story }> => {
+  const result = audited(roomId, actor, 'story-added', () => roomService.addStory(roomId, actor.userId, title, description), {
+    details: added => ({ storyId: added.story.id, title: added.story.title })
+  });
+  if (result.success) {
+    notifyBacklogUpdated(roomId, roomService.getRoom(roomId)?.currentStoryId === result.story.id);
+  }
+  return result;
+});
+
+export const importStories = roomRouter.route('importStories', (roomId: string, actor: Actor, rows: { row: number; story: NewStory }[]): Outcome<StoryImportResult> => {
+  const result = audited(roomId, actor, 'stories-imported', () => roomService.importStories(roomId, actor.userId, rows), {
+    details: imported => ({ imported: imported.imported.length })
+  });
+  if (result.success && result.imported.length > 0) {
+    const currentStoryId = roomService.getRoom(roomId)?.currentStoryId;
+    notifyBacklogUpdated(roomId, result.imported.some(story => story.id === currentStoryId));
+  }
+  return result;
+});
+
+export const editStory = roomRouter.route('editStory', (roomId: string, actor: Actor, storyId: string, story: { title: string; description: string }): Outcome => {
+  const result = audited(roomId, actor, 'story-edited', () => roomService.editStory(roomId, actor.userId, storyId, story), {
+    details: { storyId, title: story.title }
+  });
+  if (result.success) {
+    notifyBacklogUpdated(roomId, roomService.getRoom(roomId)?.currentStoryId === storyId);
+  }
+  return result;
+});
+
+export const reorderStories = roomRouter.route('reorderStories', (roomId: string, actor: Actor, storyIds: string[]): Outcome => {
+  const result = audited(roomId, actor, 'stories-reordered', () => roomService.reorderStories(roomId, actor.userId, storyIds));
+  if (result.success) {
+    notifyBacklogUpdated(roomId);
+  }
+  return result;
+});
+
+export const removeStory = roomRouter.route('removeStory', (roomId: string, actor: Actor, storyId: string): Outcome =>
+  audited(roomId, actor, 'story-removed', () => withBacklogUpdate(roomId, () => roomService.removeStory(roomId, actor.userId, storyId)), {
+    details: { storyId }
+  }));
+
+export const skipStory = roomRouter.route('skipStory', (roomId: string, actor: Actor, storyId: string): Outcome =>
+  audited(roomId, actor, 'story-skipped', () => withBacklogUpdate(roomId, () => roomService.skipStory(roomId, actor.userId, storyId)), {
+    details: { storyId }
+  }));
+
+export const selectStory = roomRouter.route('selectStory', (roomId: string, actor: Actor, storyId: string): Outcome =>
+  audited(roomId, actor, 'story-selected', () => withBacklogUpdate(roomId, () => roomService.selectStory(roomId, actor.userId, storyId)), {
+    details: { storyId }
+  }));
+
+export const nextStory = roomRouter.route('nextStory', (roomId: string, actor: Actor): Outcome => {
+  const result = audited(roomId, actor, 'story-advanced', () => roomService.nextStory(roomId, actor.userId));
+  if (result.success) {
+    notifyBacklogUpdated(roomId, true, true);
+  }
+  return result;
+});
+
+export const setFinalEstimate = roomRouter.route('setFinalEstimate', (roomId: string, actor: Actor, storyId: string, estimate: string): Outcome => {
+  const result = audited(roomId, actor, 'story-estimated', () => roomService.setFinalEstimate(roomId, actor.userId, storyId, estimate), {
+    details: { storyId, estimate }
+  });
+  if (result.success) {
+    notifyStoryEstimated(roomId, storyId);
+  }
+  return result;
+});
+
+export const setUserRole = roomRouter.route('setUserRole', (roomId: string, actor: Actor, targetUserId: string, role: UserRole): Outcome => {
+  const result = audited(roomId, actor, 'role-changed', () => roomService.setUserRole(roomId, actor.userId, targetUserId, role), {
+    targetUserId, details: { role }
+  });
+  if (result.success) {
+    notifyRolesUpdated(roomId);
+    revealIfAllVoted(roomId);
+  }
+  return result;
+});
+
+export const transferFacilitator = roomRouter.route('transferFacilitator', (roomId: string, actor: Actor, targetUserId: string): Outcome => {
+  const result = audited(roomId, actor, 'facilitator-transferred', () => roomService.transferFacilitator(roomId, actor.userId, targetUserId), {
+    targetUserId
+  });
+  if (result.success) {
+    notifyRolesUpdated(roomId);
+  }
+  return result;
+});
+
+export const claimFacilitator = roomRouter.route('claimFacilitator', (roomId: string, actor: Actor): Outcome => {
+  const result = audited(roomId, actor, 'facilitator-claimed', () => roomService.claimFacilitator(roomId, actor.userId));
+  if (result.success) {
+    notifyRolesUpdated(roomId);
+  }
+  return result;
+});
+
+export const kickUser = roomRouter.route('kickUser', (roomId: string, actor: Actor, targetUserId: string): Outcome => {
+  const result = audited(roomId, actor, 'user-kicked', () => roomService.kickUser(roomId, actor.userId, targetUserId), {
+    targetUserId
+  });
+  if (result.success) {
+    notifyUserRemoved(roomId, targetUserId, 'kicked');
+    revealIfAllVoted(roomId);
+  }
+  return result;
+});
+
+export const banUser = roomRouter.route('banUser', (roomId: string, actor: Actor, targetUserId: string): Outcome => {
+  const result = audited(roomId, actor, 'user-banned', () => roomService.banUser(roomId, actor.userId, targetUserId), {
+    targetUserId
+  });
+  if (result.success) {
+    notifyUserRemoved(roomId, targetUserId, 'banned');
+    revealIfAllVoted(roomId);
+  }
+  return result;
+});
+
+export const renameUser = roomRouter.route('renameUser', (roomId: string, actor: Actor, targetUserId: string, name: string): Outcome => {
+  const result = audited(roomId, actor, 'user-renamed', () => roomService.renameUser(roomId, actor.userId, targetUserId, name), {
+    targetUserId, details: { name }
+  });
+  if (result.success) {
+    notifyUserRenamed(roomId, targetUserId, name);
+  }
+  return result;
+});
+
+export const extendRoom = roomRouter.route('extendRoom', (roomId: string, actor: Actor): Outcome<{ expiresAt: Date }> => {
+  const result = roomService.extendRoom(roomId, actor.userId);
+  if (!result.success) {
+    return result;
+  }
+
+  // Lifts an expiry warning straight away
+  roomLifecycle.checkRoom(roomId);
+  return { success: true, expiresAt: roomLifecycle.getExpiry(roomId) as Date };
+});
+
+export const endSession = roomRouter.route('endSession', (roomId: string, actor: Actor): Outcome => {
+  const result = roomService.endSession(roomId, actor.userId);
+  if (result.success) {
+    timerService.cancel(roomId);
+    notifyRoomClosed(roomId, result.userIds, 'ended');
+  }
+  return result;
+});
+
+// Every socket a participant opens or closes, on any instance, is counted by
+// the room's owner, so they are only disconnected once their last one closes
+
+export const connectUser = roomRouter.route('connectUser', (roomId: string, userId: string, socketId: string): void => {
+  roomService.connectSocket(roomId, userId, socketId);
+});
+
+export const disconnectUser = roomRouter.route('disconnectUser', (roomId: string, userId: string, socketId: string): void => {
+  if (!roomService.disconnectSocket(roomId, userId, socketId)) {
+    return;
+  }
+  roomBroadcaster.toRoom(roomId, 'user-disconnected', { userId, users: roomService.getUsersInRoom(roomId) });
+  revealIfAllVoted(roomId);
+});
+
+// Room administration that sends no room events
+
+export const createInvite = roomRouter.route('createInvite', (roomId: string, actor: Actor, expiresInMinutes?: number, maxUses?: number): Outcome<{ invite: InviteSummary; token: string }> =>
+  roomService.createInvite(roomId, actor.userId, expiresInMinutes, maxUses));
+
+export const revokeInvite = roomRouter.route('revokeInvite', (roomId: string, actor: Actor, inviteId: string): Outcome =>
+  roomService.revokeInvite(roomId, actor.userId, inviteId));
+
+export const revokeViewTokens = roomRouter.route('revokeViewTokens', (roomId: string, actor: Actor): Outcome =>
+  roomService.revokeViewTokens(roomId, actor.userId));
+
+const addWebhookHere = roomRouter.route('addWebhook', (roomId: string, actor: Actor, url: string, events?: WebhookEvent[]): Outcome<{ webhook: Webhook }> =>
+  roomService.addWebhook(roomId, actor.userId, url, events));
+
+// The URL's host is resolved first, since commands run synchronously on the owner
+export const addWebhook = async (roomId: string, actor: Actor, url: string, events?: WebhookEvent[]): Promise<Outcome<{ webhook: Webhook }>> => {
+  const target = await webhookService.checkTarget(url);
+  if (isFailure(target)) {
+    return target;
+  }
+  return addWebhookHere(roomId, actor, url, events);
+};
+
+export const removeWebhook = roomRouter.route('removeWebhook', (roomId: string, actor: Actor, webhookId: string): Outcome =>
+  roomService.removeWebhook(roomId, actor.userId, webhookId));
+
+// Not a change, but deliveries are only logged by the owner, which sends them
+export const getWebhookDeliveries = roomRouter.route('getWebhookDeliveries', (roomId: string, actor: Actor, webhookId: string): Outcome<{ deliveries: WebhookDelivery[] }> =>
+  roomService.getWebhookDeliveries(roomId, actor.userId, webhookId));
+
+// Operator commands act on a room from outside it, so there is no acting user
+
+export const closeRoom = roomRouter.route('closeRoom', (roomId: string): Outcome => {
+  const result = roomService.closeRoom(roomId);
+  if (result.success) {
+    timerService.cancel(roomId);
+    notifyRoomClosed(roomId, result.userIds, 'closed-by-operator');
+  }
+  return result;
+});
+
+export const forceFacilitator = roomRouter.route('forceFacilitator', (roomId: string, targetUserId: string): Outcome => {
+  const targetName = roomService.getUserName(roomId, targetUserId);
+  const result = roomService.forceFacilitator(roomId, targetUserId);
+  if (result.success) {
+    roomService.recordAudit(roomId, {
+      action: 'facilitator-forced',
+      actor: null,
+      transport: 'rest',
+      target: { id: targetUserId, name: targetName || '' },
+      details: { previousFacilitatorId: result.previousFacilitatorId }
+    });
+    notifyRolesUpdated(roomId);
+  }
+  return result;
+});
@@ -0,0 +1,181 @@
+import { roomBroadcaster } from '../cluster';
+import { roomService } from './roomService';
+import { webhookService } from './webhookService';
+import { metrics } from './metrics';
+import { FacilitatorFailover, Outcome, RemovalReason, RoomClosedReason } from '../types';
+
+// Socket notifications that both the REST routes and the socket handlers send
+
+// Sent when someone joins and again when their socket connects, optionally
+// leaving out the socket that connected
+export const notifyUserJoined = (roomId: string, userId: string, exceptSocketId?: string): void => {
+  roomBroadcaster.toRoom(roomId, 'user-joined', {
+    user: roomService.getRoom(roomId)?.users.get(userId),
+    room: roomService.getRoomSummary(roomId),
+    users: roomService.getUsersInRoom(roomId)
+  }, exceptSocketId);
+};
+
+export const notifyUserRemoved = (roomId: string, userId: string, reason: RemovalReason): void => {
+  // Tell the removed user first, then take their sockets out of the room
+  roomBroadcaster.toUser(userId, 'removed-from-room', { roomId, reason });
+  roomBroadcaster.removeUserFromRoom(userId, roomId);
+
+  roomBroadcaster.toRoom(roomId, 'user-removed', {
+    userId,
+    reason,
+    room: roomService.getRoomSummary(roomId),
+    users: roomService.getUsersInRoom(roomId)
+  });
+};
+
+// Tell everyone the room has gone, then take their sockets out of it
+export const notifyRoomClosed = (roomId: string, userIds: string[], reason: RoomClosedReason): void => {
+  roomBroadcaster.toRoom(roomId, 'room-closed', { roomId, reason });
+  userIds.forEach(userId => roomBroadcaster.removeUserFromRoom(userId, roomId));
+};
+
+// Warn the room shortly before it closes for being idle
+export const notifyRoomExpiring = (roomId: string, expiresAt: Date): void => {
+  roomBroadcaster.toRoom(roomId, 'room-expiring', { roomId, expiresAt });
+};
+
+// Let a warned room know its expiry has moved back
+export const notifyRoomExtended = (roomId: string, expiresAt: Date): void => {
+  roomBroadcaster.toRoom(roomId, 'room-extended', { roomId, expiresAt });
+};
+
+export const notifyRolesUpdated = (roomId: string): void => {
+  roomBroadcaster.toRoom(roomId, 'roles-updated', {
+    room: roomService.getRoomSummary(roomId),
+    users: roomService.getUsersInRoom(roomId),
+    results: roomService.getVotingResults(roomId)
+  });
+};
+
+export const notifyUserRenamed = (roomId: string, userId: string, name: string): void => {
+  roomBroadcaster.toRoom(roomId, 'user-renamed', {
+    userId,
+    name,
+    room: roomService.getRoomSummary(roomId),
+    users: roomService.getUsersInRoom(roomId)
+  });
+};
+
+// Broadcast the backlog, the current story if it changed and the cleared
+// votes if moving between stories started a fresh round
+export const notifyBacklogUpdated = (roomId: string, storyChanged: boolean = false, votesCleared: boolean = false): void => {
+  const roomSummary = roomService.getRoomSummary(roomId);
+  if (!roomSummary) {
+    return;
+  }
+
+  roomBroadcaster.toRoom(roomId, 'stories-updated', {
+    stories: roomSummary.stories,
+    currentStoryId: roomSummary.currentStoryId,
+    room: roomSummary
+  });
+
+  if (storyChanged) {
+    roomBroadcaster.toRoom(roomId, 'story-updated', {
+      story: roomSummary.story,
+      room: roomSummary
+    });
+  }
+
+  if (votesCleared) {
+    roomBroadcaster.toRoom(roomId, 'voting-reset', {
+      users: roomService.getUsersInRoom(roomId),
+      results: roomService.getVotingResults(roomId)
+    });
+  }
+};
+
+export const notifyVotesRevealed = (roomId: string): void => {
+  const votingResults = roomService.getVotingResults(roomId);
+  if (!votingResults) {
+    return;
+  }
+
+  metrics.increment('spp_reveals_total');
+  roomBroadcaster.toRoom(roomId, 'votes-revealed', {
+    revealed: votingResults.revealed,
+    votes: votingResults.votes,
+    summary: votingResults.summary
+  });
+
+  const room = roomService.getRoom(roomId);
+  if (room) {
+    webhookService.dispatch('votes.revealed', room, {
+      story: roomService.getRoomSummary(roomId)?.story ?? null,
+      votes: votingResults.votes,
+      summary: votingResults.summary
+    });
+  }
+};
+
+// A facilitator recorded the estimate the team agreed on for a story
+export const notifyStoryEstimated = (roomId: string, storyId: string): void => {
+  notifyBacklogUpdated(roomId);
+
+  const room = roomService.getRoom(roomId);
+  const story = room?.stories.find(s => s.id === storyId);
+  if (room && story) {
+    webhookService.dispatch('story.estimated', room, {
+      story,
+      finalEstimate: story.finalEstimate
+    });
+  }
+};
+
+export const notifyTimerStarted = (roomId: string): void => {
+  roomBroadcaster.toRoom(roomId, 'timer-started', {
+    timer: roomService.getTimer(roomId)
+  });
+};
+
+export const notifyTimerStopped = (roomId: string): void => {
+  roomBroadcaster.toRoom(roomId, 'timer-stopped', {});
+};
+
+// Check the room's auto-reveal setting after anything that changes who still
+// has to vote: a vote, a disconnect, a removal or a role change
+export const revealIfAllVoted = (roomId: string): void => {
+  if (roomService.revealIfAllVoted(roomId)) {
+    notifyVotesRevealed(roomId);
+  }
+};
+
+// Send a reminder to everyone who has not voted yet; returns who was nudged
+export const nudgeStragglers = (roomId: string, userId: string): Outcome<{ userIds: string[] }> => {
+  const result = roomService.getStragglers(roomId, userId);
+  if (!result.success) {
+    return result;
+  }
+
+  const sender = roomService.getRoom(roomId)?.users.get(userId);
+  result.stragglers.forEach(straggler => {
+    roomBroadcaster.toUser(straggler.id, 'nudge', {
+      roomId,
+      from: sender ? sender.name : null
+    });
+  });
+
+  return { success: true, userIds: result.stragglers.map(straggler => straggler.id) };
+};
+
+export const notifySettingsUpdated = (roomId: string): void => {
+  roomBroadcaster.toRoom(roomId, 'settings-updated', {
+    room: roomService.getRoomSummary(roomId)
+  });
+};
+
+// The facilitator left or was away too long, and the role moved to someone
+// still connected
+export const notifyFacilitatorFailover = (roomId: string, failover: FacilitatorFailover): void => {
+  roomBroadcaster.toRoom(roomId, 'facilitator-failover', {
+    ...failover,
+    room: roomService.getRoomSummary(roomId),
+    users: roomService.getUsersInRoom(roomId)
+  });
+};
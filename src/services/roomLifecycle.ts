@@ -0,0 +1,108 @@
+import { roomRouter } from '../cluster';
+import { roomService } from './roomService';
+import { timerService } from './timerService';
+import { notifyRoomClosed, notifyRoomExpiring, notifyRoomExtended } from './roomEvents';
+
+// Closes rooms that have been idle for longer than the idle timeout, warning
+// the people in them shortly beforehand. Each instance looks after the rooms
+// it owns.
+class RoomLifecycleService {
+  private readonly DEFAULT_IDLE_MINUTES = 4 * 60; // 4 hours
+  private readonly DEFAULT_WARNING_MINUTES = 5;
+  private readonly DEFAULT_SWEEP_SECONDS = 60;
+  private interval: NodeJS.Timeout | null = null;
+  private idleTimeoutMs = this.DEFAULT_IDLE_MINUTES * 60 * 1000;
+  private warningMs = this.DEFAULT_WARNING_MINUTES * 60 * 1000;
+  // Rooms that have been warned, with the last activity the warning was for
+  private warned: Map<string, number> = new Map();
+
+  // ROOM_IDLE_MINUTES, ROOM_EXPIRY_WARNING_MINUTES and ROOM_SWEEP_SECONDS
+  // configure the timings; a warning of 0 turns warnings off, while the idle
+  // timeout and sweep interval fall back to their defaults
+  start(): void {
+    this.stop();
+
+    this.idleTimeoutMs = (this.readNumber('ROOM_IDLE_MINUTES', this.DEFAULT_IDLE_MINUTES) || this.DEFAULT_IDLE_MINUTES) * 60 * 1000;
+    this.warningMs = Math.min(this.readNumber('ROOM_EXPIRY_WARNING_MINUTES', this.DEFAULT_WARNING_MINUTES) * 60 * 1000, this.idleTimeoutMs);
+    const sweepMs = (this.readNumber('ROOM_SWEEP_SECONDS', this.DEFAULT_SWEEP_SECONDS) || this.DEFAULT_SWEEP_SECONDS) * 1000;
+
+    // Rooms restored from a durable store may have expired while the server was down
+    this.sweep();
+    this.interval = setInterval(() => this.sweep(), sweepMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  // When the room closes unless something happens in it first
+  getExpiry(roomId: string): Date | null {
+    const lastActivity = roomService.getLastActivity(roomId);
+    return lastActivity ? new Date(lastActivity.getTime() + this.idleTimeoutMs) : null;
+  }
+
+  // Expire, warn or lift the warning on a single room, e.g. straight after it
+  // was extended rather than at the next sweep
+  checkRoom(roomId: string): void {
+    const lastActivity = roomService.getLastActivity(roomId);
+    if (!lastActivity) {
+      this.warned.delete(roomId);
+      return;
+    }
+
+    const expiresAt = new Date(lastActivity.getTime() + this.idleTimeoutMs);
+    const remainingMs = expiresAt.getTime() - Date.now();
+    const warnedFor = this.warned.get(roomId);
+
+    if (remainingMs <= 0) {
+      this.warned.delete(roomId);
+      const expired = roomService.expireRoom(roomId);
+      if (expired) {
+        timerService.cancel(roomId);
+        notifyRoomClosed(roomId, expired.userIds, 'expired');
+      }
+    } else if (remainingMs <= this.warningMs) {
+      if (warnedFor !== lastActivity.getTime()) {
+        this.warned.set(roomId, lastActivity.getTime());
+        notifyRoomExpiring(roomId, expiresAt);
+      }
+    } else if (warnedFor !== undefined) {
+      this.warned.delete(roomId);
+      notifyRoomExtended(roomId, expiresAt);
+    }
+  }
+
+  private sweep(): void {
+    roomService.getAllRooms().filter(room => roomRouter.owns(room.id)).forEach(room => {
+      try {
+        this.checkRoom(room.id);
+      } catch (error) {
+        console.error(`Error checking expiry of room ${room.id}:`, error);
+      }
+    });
+
+    // Forget warnings for rooms that were closed some other way
+    Array.from(this.warned.keys())
+      .filter(roomId => !roomService.getLastActivity(roomId))
+      .forEach(roomId => this.warned.delete(roomId));
+  }
+
+  private readNumber(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw === '') {
+      return fallback;
+    }
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      console.warn(`${name} must be a non-negative number - using ${fallback}`);
+      return fallback;
+    }
+    return value;
+  }
+}
+
+export const roomLifecycle = new RoomLifecycleService();
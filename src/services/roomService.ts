@@ -1,28 +1,44 @@
-import { Room, User, Story, RoomSummary, UserSummary, VotingResults } from '../types';
+import { AuditEntry, Room, RoomSettings, Invite, InviteSummary, FacilitatorFailover, Failure, OperatorRoomState, Outcome, User, UserRole, Story, NewStory, StoryImportResult, SessionReport, Webhook, WebhookDelivery, WebhookEvent, WebhookSummary, Deck, RoomSummary, UserSummary, VotingResults, EstimationRound, TimerState } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { getDefaultDeck, isCardInDeck } from './decks';
+import { calculateVotingStatistics } from './votingStats';
+import { issueSessionToken, issueViewToken } from './sessionTokens';
+import { metrics } from './metrics';
+import { ASSIGNABLE_ROLES, JOINABLE_ROLES, canFacilitate, canVote } from './roles';
+import { buildSessionReport } from './sessionReport';
+import { fail, isFailure } from './failures';
+import { generateInviteToken, generateViewTokenNonce, hashInviteToken, hashPasscode, verifyPasscode } from './roomAccess';
+import { WEBHOOK_EVENTS, webhookService } from './webhookService';
+import { RoomStore, createRoomStore } from '../stores';
 
 class RoomService {
-  private rooms: Map<string, Room> = new Map();
   private userSockets: Map<string, string> = new Map(); // userId -> socketId
   private socketUsers: Map<string, string> = new Map(); // socketId -> userId
-  private readonly ROOM_CLEANUP_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
-  private readonly INACTIVE_ROOM_TIMEOUT = 4 * 60 * 60 * 1000; // 4 hours
+  private roomSockets: Map<string, Map<string, Set<string>>> = new Map(); // roomId -> userId -> socketIds, on the room's owner
+  private readonly MIN_TIMER_SECONDS = 5;
+  private readonly MAX_TIMER_SECONDS = 60 * 60; // 1 hour
+  private readonly MAX_FINAL_ESTIMATE_LENGTH = 10;
+  private readonly MAX_WEBHOOKS_PER_ROOM = 10;
+  private readonly DEFAULT_INVITE_MINUTES = 24 * 60; // 1 day
+  private readonly MAX_INVITE_MINUTES = 30 * 24 * 60; // 30 days
+  private readonly MAX_INVITE_USES = 1000;
+  private readonly MAX_INVITES_PER_ROOM = 50;
+  private readonly DEFAULT_VIEW_TOKEN_MINUTES = 12 * 60; // 12 hours
+  private readonly MAX_VIEW_TOKEN_MINUTES = 30 * 24 * 60; // 30 days
 
-  constructor() {
-    // Clean up inactive rooms periodically
-    setInterval(() => {
-      this.cleanupInactiveRooms();
-    }, this.ROOM_CLEANUP_INTERVAL);
+  constructor(private rooms: RoomStore) {
+    this.restoreRooms();
   }
 
-  createRoom(name: string, adminName: string): { roomId: string; userId: string } {
-    const roomId = this.generateRoomId();
+  // The room ID comes from generateRoomId, so the room can be created on the
+  // instance that will own it
+  createRoom(roomId: string, name: string, adminName: string, deck: Deck = getDefaultDeck(), passcode?: string): { roomId: string; userId: string; token: string } {
     const userId = uuidv4();
     
-    const admin: User = {
+    const facilitator: User = {
       id: userId,
       name: adminName,
-      isAdmin: true,
+      role: 'facilitator',
       hasVoted: false,
       joinedAt: new Date(),
       connected: true
@@ -31,86 +47,245 @@ class RoomService {
     const room: Room = {
       id: roomId,
       name,
-      adminId: userId,
-      users: new Map([[userId, admin]]),
-      story: { title: '', description: '' },
+      facilitatorId: userId,
+      users: new Map([[userId, facilitator]]),
+      stories: [],
+      currentStoryId: null,
+      deck,
+      settings: {
+        autoRevealWhenAllVoted: false
+      },
       votingRevealed: false,
       estimationStarted: false,
+      roundStartedAt: new Date(),
+      timer: null,
+      history: [],
+      auditLog: [],
+      bans: [],
+      webhooks: [],
+      passcodeHash: passcode ? hashPasscode(passcode) : null,
+      invites: [],
+      viewTokenNonce: generateViewTokenNonce(),
       createdAt: new Date(),
       lastActivity: new Date()
     };
 
-    this.rooms.set(roomId, room);
-    return { roomId, userId };
+    this.rooms.save(room);
+    webhookService.dispatch('room.created', room, {
+      roomId,
+      name,
+      createdAt: room.createdAt
+    });
+    return { roomId, userId, token: issueSessionToken(roomId, userId) };
   }
 
-  joinRoom(roomId: string, userName: string, isAdmin: boolean = false): { success: boolean; userId?: string; error?: string } {
+  // Protected rooms need the passcode or a valid invite token. An invite is
+  // only used up once every other check has passed.
+  joinRoom(roomId: string, userName: string, role: UserRole = 'voter', credentials: { passcode?: string; inviteToken?: string } = {}): Outcome<{ userId: string; token: string }> {
     const room = this.rooms.get(roomId);
     if (!room) {
-      return { success: false, error: 'Room not found' };
+      return fail('room-not-found', 'Room not found');
+    }
+
+    const invite = credentials.inviteToken ? this.findUsableInvite(room, credentials.inviteToken) : null;
+    if (credentials.inviteToken && !invite) {
+      return fail('invite-invalid', 'Invite is invalid, expired or used up');
+    }
+
+    if (room.passcodeHash && !invite) {
+      if (!credentials.passcode) {
+        return fail('passcode-required', 'This room requires a passcode or an invite');
+      }
+      if (!verifyPasscode(credentials.passcode, room.passcodeHash)) {
+        return fail('passcode-incorrect', 'Incorrect passcode');
+      }
+    }
+
+    // Bans match on name as well, since rejoining creates a new user ID
+    const normalizedName = this.normalizeName(userName);
+    if (room.bans.some(ban => this.normalizeName(ban.name) === normalizedName)) {
+      return fail('banned', 'You have been banned from this room');
+    }
+
+    if (!JOINABLE_ROLES.includes(role)) {
+      return fail('invalid-request', `Cannot join a room as '${role}'`);
     }
 
-    // Check if trying to join as admin when admin already exists
-    if (isAdmin && room.adminId && room.users.has(room.adminId)) {
-      return { success: false, error: 'Admin already exists in this room' };
+    // The facilitator role can only be taken when it is vacant
+    if (role === 'facilitator' && this.getFacilitator(room)) {
+      return fail('facilitator-taken', 'This room already has a facilitator');
     }
 
     const userId = uuidv4();
     const user: User = {
       id: userId,
       name: userName,
-      isAdmin,
+      role,
       hasVoted: false,
       joinedAt: new Date(),
       connected: true
     };
 
-    // If joining as admin and no current admin, make this user the admin
-    if (isAdmin) {
-      room.adminId = userId;
+    if (role === 'facilitator') {
+      room.facilitatorId = userId;
+    }
+
+    if (invite) {
+      invite.uses++;
     }
 
     room.users.set(userId, user);
-    room.lastActivity = new Date();
+    this.touch(room);
 
-    return { success: true, userId };
+    return { success: true, userId, token: issueSessionToken(roomId, userId) };
   }
 
-  leaveRoom(roomId: string, userId: string): boolean {
-    const room = this.rooms.get(roomId);
-    if (!room) {
-      return false;
+  // A leaving facilitator is replaced as in a failover
+  leaveRoom(roomId: string, userId: string): Outcome<{ failover: FacilitatorFailover | null }> {
+    const membership = this.getMembership(roomId, userId);
+    if (isFailure(membership)) {
+      return membership;
     }
 
-    const user = room.users.get(userId);
-    if (!user) {
-      return false;
+    const failover = this.removeUser(membership.room, userId);
+    return { success: true, failover };
+  }
+
+  // Remove another participant from the room (facilitators only)
+  kickUser(roomId: string, userId: string, targetUserId: string): Outcome {
+    const room = this.getModeratedRoom(roomId, userId, targetUserId, 'remove other participants');
+    if (isFailure(room)) {
+      return room;
     }
 
-    room.users.delete(userId);
-    room.lastActivity = new Date();
+    this.removeUser(room, targetUserId);
+    return { success: true };
+  }
 
-    // If admin left and there are other users, promote the first non-admin user
-    if (user.isAdmin && room.users.size > 0) {
-      const newAdmin = Array.from(room.users.values())[0];
-      newAdmin.isAdmin = true;
-      room.adminId = newAdmin.id;
+  // Remove a participant and stop them from rejoining under the same name (facilitators only)
+  banUser(roomId: string, userId: string, targetUserId: string): Outcome {
+    const room = this.getModeratedRoom(roomId, userId, targetUserId, 'ban other participants');
+    if (isFailure(room)) {
+      return room;
     }
 
-    // Delete room if empty
-    if (room.users.size === 0) {
-      this.rooms.delete(roomId);
+    const target = room.users.get(targetUserId) as User;
+    room.bans.push({
+      userId: target.id,
+      name: target.name,
+      bannedAt: new Date(),
+      bannedBy: userId
+    });
+
+    this.removeUser(room, targetUserId);
+    return { success: true };
+  }
+
+  // Facilitators can rename anyone, everyone else only themselves
+  renameUser(roomId: string, userId: string, targetUserId: string, name: string): Outcome {
+    const membership = this.getMembership(roomId, userId);
+    if (isFailure(membership)) {
+      return membership;
     }
 
-    return true;
+    const { room, user } = membership;
+    const target = room.users.get(targetUserId);
+    if (!target) {
+      return fail('user-not-found', 'User not found in this room');
+    }
+    if (userId !== targetUserId && !canFacilitate(user)) {
+      return fail('not-authorized', 'Only facilitators can rename other participants');
+    }
+
+    target.name = name;
+    this.touch(room);
+    return { success: true };
   }
 
-  getRoom(roomId: string): Room | null {
-    const room = this.rooms.get(roomId);
-    if (room) {
-      room.lastActivity = new Date();
+  // Hand the facilitator role to another participant; the current
+  // facilitator stays on as a co-facilitator
+  transferFacilitator(roomId: string, userId: string, targetUserId: string): Outcome {
+    const membership = this.getMembership(roomId, userId);
+    if (isFailure(membership)) {
+      return membership;
+    }
+
+    const { room, user: current } = membership;
+    if (room.facilitatorId !== userId) {
+      return fail('not-authorized', 'Only the facilitator can hand over the role');
+    }
+    if (userId === targetUserId) {
+      return fail('invalid-request', 'You are already the facilitator');
+    }
+
+    const target = room.users.get(targetUserId);
+    if (!target) {
+      return fail('user-not-found', 'User not found in this room');
+    }
+
+    current.role = 'co-facilitator';
+    target.role = 'facilitator';
+    room.facilitatorId = target.id;
+    this.touch(room);
+    return { success: true };
+  }
+
+  // Take over a vacant facilitator role
+  claimFacilitator(roomId: string, userId: string): Outcome {
+    const membership = this.getMembership(roomId, userId);
+    if (isFailure(membership)) {
+      return membership;
+    }
+
+    const { room, user } = membership;
+    if (this.getFacilitator(room)) {
+      return fail('facilitator-taken', 'This room already has a facilitator');
+    }
+
+    user.role = 'facilitator';
+    room.facilitatorId = user.id;
+    this.touch(room);
+    return { success: true };
+  }
+
+  // Assign co-facilitator, voter or observer to another participant (facilitator only)
+  setUserRole(roomId: string, userId: string, targetUserId: string, role: UserRole): Outcome {
+    const membership = this.getMembership(roomId, userId);
+    if (isFailure(membership)) {
+      return membership;
     }
-    return room || null;
+
+    const { room } = membership;
+    if (room.facilitatorId !== userId) {
+      return fail('not-authorized', 'Only the facilitator can assign roles');
+    }
+    if (userId === targetUserId) {
+      return fail('invalid-request', 'You cannot change your own role');
+    }
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      return fail('invalid-request', `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`);
+    }
+
+    const target = room.users.get(targetUserId);
+    if (!target) {
+      return fail('user-not-found', 'User not found in this room');
+    }
+
+    target.role = role;
+
+    // Observers do not estimate, so drop any vote they had cast
+    if (!canVote(target)) {
+      target.estimate = undefined;
+      target.hasVoted = false;
+    }
+
+    this.touch(room);
+    return { success: true };
+  }
+
+  // Reads never count as activity, so polling a room does not keep it open
+  getRoom(roomId: string): Room | null {
+    return this.rooms.get(roomId) || null;
   }
 
   getRoomSummary(roomId: string): RoomSummary | null {
@@ -119,101 +294,652 @@ class RoomService {
       return null;
     }
 
-    const admin = room.users.get(room.adminId);
-    return {
-      id: room.id,
-      name: room.name,
-      userCount: room.users.size,
-      adminName: admin?.name || 'Unknown',
-      story: room.story,
-      votingRevealed: room.votingRevealed,
-      estimationStarted: room.estimationStarted,
-      createdAt: room.createdAt,
-      lastActivity: room.lastActivity
-    };
+    return this.toRoomSummary(room);
+  }
+
+  // Update the current story, creating one if the backlog is empty
+  updateStory(roomId: string, userId: string, story: Pick<Story, 'title' | 'description'>): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'update the story');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const current = this.getCurrentStory(room);
+    if (current) {
+      current.title = story.title;
+      current.description = story.description;
+    } else {
+      const created = this.createStory({ title: story.title, description: story.description });
+      room.stories.push(created);
+      room.currentStoryId = created.id;
+    }
+
+    this.touch(room);
+    return { success: true };
   }
 
-  updateStory(roomId: string, userId: string, story: Story): boolean {
+  // Story backlog methods
+  getStories(roomId: string): { stories: Story[]; currentStoryId: string | null } | null {
     const room = this.rooms.get(roomId);
     if (!room) {
+      return null;
+    }
+
+    return { stories: room.stories, currentStoryId: room.currentStoryId };
+  }
+
+  addStory(roomId: string, userId: string, title: string, description: string = ''): Outcome<{ story: Story }> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'add stories');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const story = this.createStory({ title, description });
+    room.stories.push(story);
+
+    // The first story added to an empty backlog becomes the current one
+    if (!room.currentStoryId) {
+      room.currentStoryId = story.id;
+    }
+
+    this.touch(room);
+    return { success: true, story };
+  }
+
+  // Append stories in bulk; stories whose external key is already in the
+  // backlog are rejected rather than duplicated
+  importStories(roomId: string, userId: string, rows: { row: number; story: NewStory }[]): Outcome<StoryImportResult> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'import stories');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const existingKeys = new Set(room.stories.map(story => story.externalKey).filter(Boolean));
+    const result: StoryImportResult = { imported: [], rejected: [] };
+
+    rows.forEach(({ row, story }) => {
+      if (story.externalKey && existingKeys.has(story.externalKey)) {
+        result.rejected.push({ row, reason: `A story with external key '${story.externalKey}' is already in the backlog` });
+        return;
+      }
+
+      const created = this.createStory(story);
+      room.stories.push(created);
+      result.imported.push(created);
+    });
+
+    if (!room.currentStoryId && result.imported.length > 0) {
+      room.currentStoryId = result.imported[0].id;
+    }
+
+    this.touch(room);
+    return { success: true, ...result };
+  }
+
+  editStory(roomId: string, userId: string, storyId: string, update: Pick<Story, 'title' | 'description'>): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'edit stories');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const story = room.stories.find(s => s.id === storyId);
+    if (!story) {
+      return fail('story-not-found', 'Story not found');
+    }
+
+    story.title = update.title;
+    story.description = update.description;
+    this.touch(room);
+    return { success: true };
+  }
+
+  reorderStories(roomId: string, userId: string, storyIds: string[]): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'reorder stories');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    // The new order must contain every existing story exactly once
+    const uniqueIds = new Set(storyIds);
+    if (uniqueIds.size !== storyIds.length || storyIds.length !== room.stories.length) {
+      return fail('invalid-request', 'The new order must list every story in the backlog exactly once');
+    }
+
+    const storiesById = new Map(room.stories.map(story => [story.id, story]));
+    if (!storyIds.every(id => storiesById.has(id))) {
+      return fail('story-not-found', 'The new order contains stories that are not in the backlog');
+    }
+
+    room.stories = storyIds.map(id => storiesById.get(id) as Story);
+    this.touch(room);
+    return { success: true };
+  }
+
+  removeStory(roomId: string, userId: string, storyId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'remove stories');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const index = room.stories.findIndex(s => s.id === storyId);
+    if (index === -1) {
+      return fail('story-not-found', 'Story not found');
+    }
+
+    if (room.currentStoryId === storyId) {
+      this.advanceToNextStory(room);
+    }
+
+    room.stories.splice(index, 1);
+    this.touch(room);
+    return { success: true };
+  }
+
+  skipStory(roomId: string, userId: string, storyId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'skip stories');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const story = room.stories.find(s => s.id === storyId);
+    if (!story) {
+      return fail('story-not-found', 'Story not found');
+    }
+
+    story.status = 'skipped';
+    if (room.currentStoryId === storyId) {
+      this.advanceToNextStory(room);
+    }
+
+    this.touch(room);
+    return { success: true };
+  }
+
+  selectStory(roomId: string, userId: string, storyId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'select stories');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const story = room.stories.find(s => s.id === storyId);
+    if (!story) {
+      return fail('story-not-found', 'Story not found');
+    }
+
+    if (room.currentStoryId !== storyId) {
+      room.currentStoryId = storyId;
+      this.clearVotes(room);
+    }
+
+    this.touch(room);
+    return { success: true };
+  }
+
+  // Record the estimate the team agreed on, which also marks the story estimated
+  setFinalEstimate(roomId: string, userId: string, storyId: string, estimate: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'set the final estimate');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const story = room.stories.find(s => s.id === storyId);
+    if (!story) {
+      return fail('story-not-found', 'Story not found');
+    }
+
+    const value = typeof estimate === 'string' ? estimate.trim() : '';
+    if (!value || value.length > this.MAX_FINAL_ESTIMATE_LENGTH) {
+      return fail('invalid-request', `Final estimate must be between 1 and ${this.MAX_FINAL_ESTIMATE_LENGTH} characters`);
+    }
+
+    story.finalEstimate = value;
+    story.status = 'estimated';
+    this.touch(room);
+    return { success: true };
+  }
+
+  nextStory(roomId: string, userId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'move to the next story');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    // A story whose votes were revealed counts as estimated
+    const current = this.getCurrentStory(room);
+    if (current && room.votingRevealed) {
+      current.status = 'estimated';
+    }
+
+    this.advanceToNextStory(room);
+    this.touch(room);
+    return { success: true };
+  }
+
+  // Replace the room's deck; votes cast with the old cards are cleared
+  setDeck(roomId: string, userId: string, deck: Deck): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'change the deck');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    room.deck = deck;
+    this.clearVotes(room);
+    this.touch(room);
+    return { success: true };
+  }
+
+  submitVote(roomId: string, userId: string, estimate: string): Outcome {
+    const membership = this.getMembership(roomId, userId);
+    if (isFailure(membership)) {
+      return membership;
+    }
+
+    const { room, user } = membership;
+    if (!canVote(user)) {
+      return fail('not-authorized', 'Observers cannot vote');
+    }
+
+    // Don't allow voting if results are already revealed
+    if (room.votingRevealed) {
+      return fail('voting-closed', 'Voting is closed - votes have already been revealed');
+    }
+
+    if (estimate !== '' && !isCardInDeck(room.deck, estimate)) {
+      return fail('invalid-request', `Invalid estimate '${estimate}' - allowed cards are ${room.deck.cards.join(', ')}`);
+    }
+
+    // If estimate is empty string, it means the vote is being cleared
+    if (estimate === '') {
+      user.estimate = undefined;
+      user.hasVoted = false;
+    } else {
+      user.estimate = estimate;
+      user.hasVoted = true;
+    }
+    this.touch(room);
+    return { success: true };
+  }
+
+  revealVotes(roomId: string, userId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'reveal votes');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const user = room.users.get(userId) as User;
+
+    // Revealing an already revealed round must not record it twice
+    if (!room.votingRevealed) {
+      room.votingRevealed = true;
+      room.timer = null;
+      this.recordRound(room, user);
+    }
+
+    this.touch(room);
+    return { success: true };
+  }
+
+  updateSettings(roomId: string, userId: string, settings: Partial<RoomSettings>): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'change room settings');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    if (typeof settings.autoRevealWhenAllVoted === 'boolean') {
+      room.settings.autoRevealWhenAllVoted = settings.autoRevealWhenAllVoted;
+    }
+
+    this.touch(room);
+    return { success: true };
+  }
+
+  // Reveal the votes if the room asks for it and every connected participant
+  // who can vote has voted. Disconnected users are not waited for.
+  revealIfAllVoted(roomId: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room || room.votingRevealed || !room.settings.autoRevealWhenAllVoted) {
       return false;
     }
 
-    const user = room.users.get(userId);
-    if (!user || !user.isAdmin) {
+    const expectedVoters = Array.from(room.users.values()).filter(user => canVote(user) && user.connected);
+    if (expectedVoters.length === 0 || !expectedVoters.every(user => user.hasVoted)) {
       return false;
     }
 
-    room.story = story;
-    room.lastActivity = new Date();
+    room.votingRevealed = true;
+    room.timer = null;
+    this.recordRound(room, null);
+    this.appendAudit(room, { action: 'votes-revealed', actor: null, transport: 'system', details: { trigger: 'all-voted' } });
+    this.touch(room);
     return true;
   }
 
-  submitVote(roomId: string, userId: string, estimate: string): boolean {
+  // Connected participants who can vote but have not yet (facilitators only)
+  getStragglers(roomId: string, userId: string): Outcome<{ stragglers: User[] }> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'nudge participants');
+    if (isFailure(room)) {
+      return room;
+    }
+    if (room.votingRevealed) {
+      return fail('voting-closed', 'Votes have already been revealed');
+    }
+
+    const stragglers = Array.from(room.users.values()).filter(user => canVote(user) && user.connected && !user.hasVoted);
+    return { success: true, stragglers };
+  }
+
+  // Start a countdown for the current round, replacing any running one
+  startTimer(roomId: string, userId: string, durationSeconds: number, autoReveal: boolean = false): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'start the timer');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const duration = this.checkTimerDuration(durationSeconds);
+    if (isFailure(duration)) {
+      return duration;
+    }
+
+    if (room.votingRevealed) {
+      return fail('voting-closed', 'Votes have already been revealed');
+    }
+
+    const startedAt = new Date();
+    room.timer = {
+      id: uuidv4(),
+      durationSeconds,
+      autoReveal,
+      startedAt,
+      endsAt: new Date(startedAt.getTime() + durationSeconds * 1000)
+    };
+
+    this.touch(room);
+    return { success: true };
+  }
+
+  checkTimerDuration(durationSeconds: number): Outcome {
+    if (!Number.isInteger(durationSeconds) || durationSeconds < this.MIN_TIMER_SECONDS || durationSeconds > this.MAX_TIMER_SECONDS) {
+      return fail('invalid-request', `Timer duration must be a whole number of seconds between ${this.MIN_TIMER_SECONDS} and ${this.MAX_TIMER_SECONDS}`);
+    }
+    return { success: true };
+  }
+
+  stopTimer(roomId: string, userId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'stop the timer');
+    if (isFailure(room)) {
+      return room;
+    }
+    if (!room.timer) {
+      return fail('timer-not-running', 'No timer is running');
+    }
+
+    room.timer = null;
+    this.touch(room);
+    return { success: true };
+  }
+
+  getTimer(roomId: string): TimerState | null {
     const room = this.rooms.get(roomId);
-    if (!room) {
-      return false;
+    return room ? this.toTimerState(room) : null;
+  }
+
+  // Called when a countdown runs out. Ignores timers that were stopped or
+  // replaced in the meantime, and reveals the votes if the timer asked for it.
+  expireTimer(roomId: string, timerId: string): { expired: boolean; revealed: boolean } {
+    const room = this.rooms.get(roomId);
+    if (!room || !room.timer || room.timer.id !== timerId) {
+      return { expired: false, revealed: false };
+    }
+
+    const { autoReveal } = room.timer;
+    room.timer = null;
+
+    const revealed = autoReveal && !room.votingRevealed;
+    if (revealed) {
+      room.votingRevealed = true;
+      this.recordRound(room, null);
+      this.appendAudit(room, { action: 'votes-revealed', actor: null, transport: 'system', details: { trigger: 'timer' } });
+    }
+
+    // The timer was started by a command, which already counted as activity
+    this.rooms.save(room);
+    return { expired: true, revealed };
+  }
+
+  // Rooms with a passcode only show their state to members
+  isProtected(roomId: string): boolean {
+    const room = this.rooms.get(roomId);
+    return !!(room && room.passcodeHash);
+  }
+
+  // Set, change or remove (null) the room passcode. Existing members stay in.
+  setPasscode(roomId: string, userId: string, passcode: string | null): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'change the passcode');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    room.passcodeHash = passcode ? hashPasscode(passcode) : null;
+    this.touch(room);
+    return { success: true };
+  }
+
+  // Issue an invite that expires, has a limited number of uses, or both.
+  // The token is only returned here.
+  createInvite(roomId: string, userId: string, expiresInMinutes?: number, maxUses?: number): Outcome<{ invite: InviteSummary; token: string }> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'create invites');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    if (expiresInMinutes !== undefined && (!Number.isInteger(expiresInMinutes) || expiresInMinutes < 1 || expiresInMinutes > this.MAX_INVITE_MINUTES)) {
+      return fail('invalid-request', `Invite expiry must be between 1 and ${this.MAX_INVITE_MINUTES} minutes`);
+    }
+    if (maxUses !== undefined && (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > this.MAX_INVITE_USES)) {
+      return fail('invalid-request', `Invite uses must be between 1 and ${this.MAX_INVITE_USES}`);
+    }
+
+    // Drop invites that can no longer be used before checking the limit
+    room.invites = (room.invites || []).filter(invite => this.isInviteUsable(invite));
+    if (room.invites.length >= this.MAX_INVITES_PER_ROOM) {
+      return fail('limit-reached', `A room cannot have more than ${this.MAX_INVITES_PER_ROOM} active invites`);
+    }
+
+    // Invites without a use limit always expire
+    const minutes = expiresInMinutes ?? (maxUses === undefined ? this.DEFAULT_INVITE_MINUTES : undefined);
+    const token = generateInviteToken();
+    const invite: Invite = {
+      id: uuidv4(),
+      tokenHash: hashInviteToken(token),
+      createdBy: userId,
+      createdAt: new Date(),
+      expiresAt: minutes !== undefined ? new Date(Date.now() + minutes * 60 * 1000) : null,
+      maxUses: maxUses ?? null,
+      uses: 0
+    };
+
+    room.invites.push(invite);
+    this.touch(room);
+    return { success: true, invite: this.toInviteSummary(invite), token };
+  }
+
+  // A read-only token for dashboards that follow the room's stream
+  createViewToken(roomId: string, userId: string, expiresInMinutes?: number): Outcome<{ token: string; expiresAt: Date }> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'share the room dashboard');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    if (expiresInMinutes !== undefined && (!Number.isInteger(expiresInMinutes) || expiresInMinutes < 1 || expiresInMinutes > this.MAX_VIEW_TOKEN_MINUTES)) {
+      return fail('invalid-request', `View token expiry must be between 1 and ${this.MAX_VIEW_TOKEN_MINUTES} minutes`);
+    }
+
+    const expiresAt = new Date(Date.now() + (expiresInMinutes ?? this.DEFAULT_VIEW_TOKEN_MINUTES) * 60 * 1000);
+    return { success: true, token: issueViewToken(roomId, room.viewTokenNonce, expiresAt), expiresAt };
+  }
+
+  // Revoke every view token issued for the room so far
+  revokeViewTokens(roomId: string, userId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'revoke view tokens');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    room.viewTokenNonce = generateViewTokenNonce();
+    this.touch(room);
+    return { success: true };
+  }
+
+  // Whether a view token with this nonce was issued for the room as it is now
+  isViewTokenCurrent(roomId: string, nonce: string): boolean {
+    const room = this.rooms.get(roomId);
+    return !!room && room.viewTokenNonce === nonce;
+  }
+
+  getInvites(roomId: string, userId: string): Outcome<{ invites: InviteSummary[] }> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'view invites');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const invites = (room.invites || [])
+      .filter(invite => this.isInviteUsable(invite))
+      .map(invite => this.toInviteSummary(invite));
+    return { success: true, invites };
+  }
+
+  revokeInvite(roomId: string, userId: string, inviteId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'revoke invites');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const index = (room.invites || []).findIndex(invite => invite.id === inviteId);
+    if (index === -1) {
+      return fail('invite-not-found', 'Invite not found');
+    }
+
+    room.invites.splice(index, 1);
+    this.touch(room);
+    return { success: true };
+  }
+
+  getWebhooks(roomId: string, userId: string): Outcome<{ webhooks: WebhookSummary[] }> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'manage webhooks');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    const webhooks = (room.webhooks || []).map(webhook => this.toWebhookSummary(webhook));
+    return { success: true, webhooks };
+  }
+
+  getWebhookDeliveries(roomId: string, userId: string, webhookId: string): Outcome<{ deliveries: WebhookDelivery[] }> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'manage webhooks');
+    if (isFailure(room)) {
+      return room;
+    }
+    if (!(room.webhooks || []).some(webhook => webhook.id === webhookId)) {
+      return fail('webhook-not-found', 'Webhook not found');
+    }
+
+    return { success: true, deliveries: webhookService.getDeliveries(webhookId) };
+  }
+
+  // Subscribe a URL to the room's events. The signing secret is only returned here.
+  addWebhook(roomId: string, userId: string, url: string, events: WebhookEvent[] = WEBHOOK_EVENTS): Outcome<{ webhook: Webhook }> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'manage webhooks');
+    if (isFailure(room)) {
+      return room;
     }
 
-    const user = room.users.get(userId);
-    if (!user) {
-      return false;
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (error) {
+      return fail('invalid-request', 'Webhook URL is not valid');
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return fail('invalid-request', 'Webhook URL must use http or https');
     }
 
-    // Don't allow voting if results are already revealed
-    if (room.votingRevealed) {
-      return false;
+    if (!Array.isArray(events) || events.length === 0 || !events.every(event => WEBHOOK_EVENTS.includes(event))) {
+      return fail('invalid-request', `Webhook events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}`);
     }
 
-    // If estimate is empty string, it means the vote is being cleared
-    if (estimate === '') {
-      user.estimate = undefined;
-      user.hasVoted = false;
-    } else {
-      user.estimate = estimate;
-      user.hasVoted = true;
+    room.webhooks = room.webhooks || [];
+    if (room.webhooks.length >= this.MAX_WEBHOOKS_PER_ROOM) {
+      return fail('limit-reached', `A room cannot have more than ${this.MAX_WEBHOOKS_PER_ROOM} webhooks`);
     }
-    room.lastActivity = new Date();
-    return true;
+
+    const webhook: Webhook = {
+      id: uuidv4(),
+      url: parsed.toString(),
+      events: Array.from(new Set(events)),
+      secret: webhookService.generateSecret(),
+      roomId,
+      createdAt: new Date()
+    };
+
+    room.webhooks.push(webhook);
+    this.touch(room);
+    return { success: true, webhook };
   }
 
-  revealVotes(roomId: string, userId: string): boolean {
-    const room = this.rooms.get(roomId);
-    if (!room) {
-      return false;
+  removeWebhook(roomId: string, userId: string, webhookId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'manage webhooks');
+    if (isFailure(room)) {
+      return room;
     }
 
-    const user = room.users.get(userId);
-    if (!user || !user.isAdmin) {
-      return false;
+    const index = (room.webhooks || []).findIndex(webhook => webhook.id === webhookId);
+    if (index === -1) {
+      return fail('webhook-not-found', 'Webhook not found');
     }
 
-    room.votingRevealed = true;
-    room.lastActivity = new Date();
-    return true;
+    room.webhooks.splice(index, 1);
+    webhookService.forgetWebhook(webhookId);
+    this.touch(room);
+    return { success: true };
+  }
+
+  // Results report for the session (facilitators only)
+  getSessionReport(roomId: string, userId: string): Outcome<{ report: SessionReport }> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'export results');
+    return isFailure(room) ? room : { success: true, report: buildSessionReport(room) };
   }
 
-  resetVoting(roomId: string, userId: string): boolean {
+  getHistory(roomId: string): EstimationRound[] | null {
     const room = this.rooms.get(roomId);
     if (!room) {
-      return false;
+      return null;
     }
 
-    const user = room.users.get(userId);
-    if (!user || !user.isAdmin) {
-      return false;
+    return room.history;
+  }
+
+  resetVoting(roomId: string, userId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'reset voting');
+    if (isFailure(room)) {
+      return room;
     }
 
-    // Reset all user votes
-    room.users.forEach(user => {
-      user.estimate = undefined;
-      user.hasVoted = false;
-    });
+    this.clearVotes(room);
+    this.touch(room);
+    return { success: true };
+  }
 
-    room.votingRevealed = false;
-    room.estimationStarted = false;
-    room.lastActivity = new Date();
-    return true;
+  // Open a fresh round: clear any votes and let participants start voting
+  startEstimation(roomId: string, userId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'start estimation');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    this.clearVotes(room);
+    room.estimationStarted = true;
+    this.touch(room);
+    return { success: true };
   }
 
   getVotingResults(roomId: string): VotingResults | null {
@@ -222,21 +948,30 @@ class RoomService {
       return null;
     }
 
-    const votes: UserSummary[] = Array.from(room.users.values()).map(user => ({
+    // Observers are not part of the vote
+    const voters = Array.from(room.users.values()).filter(canVote);
+
+    const votes: UserSummary[] = voters.map(user => ({
       id: user.id,
       name: user.name,
-      isAdmin: user.isAdmin,
+      role: user.role,
       hasVoted: user.hasVoted,
       estimate: room.votingRevealed ? user.estimate : undefined,
       connected: user.connected
     }));
 
-    const votedUsers = Array.from(room.users.values()).filter(user => user.hasVoted);
+    const votedUsers = voters.filter(user => user.hasVoted);
     const estimates = votedUsers.map(user => user.estimate).filter(Boolean) as string[];
-    const estimateCounts = estimates.reduce((acc, estimate) => {
-      acc[estimate] = (acc[estimate] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+
+    // Detailed statistics would give the votes away, so only compute them once revealed
+    const statistics = room.votingRevealed
+      ? calculateVotingStatistics(
+          votedUsers
+            .filter(user => user.estimate)
+            .map(user => ({ userId: user.id, name: user.name, estimate: user.estimate as string })),
+          room.deck
+        )
+      : null;
 
     return {
       revealed: room.votingRevealed,
@@ -244,6 +979,7 @@ class RoomService {
       summary: {
         totalVotes: votedUsers.length,
         uniqueEstimates: Array.from(new Set(estimates)),
+        statistics
       }
     };
   }
@@ -257,7 +993,7 @@ class RoomService {
     const users = Array.from(room.users.values()).map(user => ({
       id: user.id,
       name: user.name,
-      isAdmin: user.isAdmin,
+      role: user.role,
       hasVoted: user.hasVoted,
       estimate: room.votingRevealed ? user.estimate : undefined,
       connected: user.connected
@@ -267,67 +1003,138 @@ class RoomService {
   }
 
   // Socket and connection tracking methods
-  private userSocketsMap: Map<string, Set<string>> = new Map(); // userId -> Set of socketIds
-
+  // Sockets that joined a room on this instance
   setUserSocket(userId: string, socketId: string): void {
-    // Add to socketUsers map
     this.socketUsers.set(socketId, userId);
-    
-    // Add to userSocketsMap (maintain multiple sockets per user)
-    if (!this.userSocketsMap.has(userId)) {
-      this.userSocketsMap.set(userId, new Set());
-    }
-    this.userSocketsMap.get(userId)?.add(socketId);
-    
-    // Mark user as connected since they have an active socket
-    this.updateUserConnectionStatus(userId, true);
   }
 
   removeSocketMapping(socketId: string): void {
-    const userId = this.socketUsers.get(socketId);
-    if (userId) {
-      // Remove from socketUsers map
-      this.socketUsers.delete(socketId);
-      
-      // Remove from userSocketsMap
-      const userSockets = this.userSocketsMap.get(userId);
-      if (userSockets) {
-        userSockets.delete(socketId);
-        if (userSockets.size === 0) {
-          this.userSocketsMap.delete(userId);
-        }
-      }
+    this.socketUsers.delete(socketId);
+  }
+
+  // Count a socket the participant opened on any instance. Run on the room's
+  // owner, which hears about every socket, so a participant with tabs on
+  // several instances stays connected until the last one closes.
+  connectSocket(roomId: string, userId: string, socketId: string): void {
+    const room = this.rooms.get(roomId);
+    const user = room?.users.get(userId);
+    if (!room || !user) {
+      return;
+    }
+
+    const users = this.roomSockets.get(roomId) || new Map<string, Set<string>>();
+    const sockets = users.get(userId) || new Set<string>();
+    sockets.add(socketId);
+    users.set(userId, sockets);
+    this.roomSockets.set(roomId, users);
+
+    // Reconnecting counts as activity
+    if (!user.connected) {
+      user.connected = true;
+      delete user.disconnectedAt;
+      this.touch(room);
     }
   }
 
-  hasActiveSocket(userId: string): boolean {
-    const userSockets = this.userSocketsMap.get(userId);
-    return !!userSockets && userSockets.size > 0;
+  // Forget a closed socket; returns true when it was the participant's last
+  // one and they are now disconnected
+  disconnectSocket(roomId: string, userId: string, socketId: string): boolean {
+    const users = this.roomSockets.get(roomId);
+    const sockets = users?.get(userId);
+    sockets?.delete(socketId);
+    if (sockets && sockets.size > 0) {
+      return false;
+    }
+
+    users?.delete(userId);
+    if (users && users.size === 0) {
+      this.roomSockets.delete(roomId);
+    }
+
+    const room = this.rooms.get(roomId);
+    const user = room?.users.get(userId);
+    if (!room || !user || !user.connected) {
+      return false;
+    }
+
+    // Dropping out does not count as activity
+    user.connected = false;
+    user.disconnectedAt = new Date();
+    this.rooms.save(room);
+    return true;
   }
 
-  markUserDisconnected(userId: string): void {
-    this.updateUserConnectionStatus(userId, false);
+  // Remove participants who have been disconnected for longer than the grace
+  // period; returns the IDs of the removed users
+  removeDisconnectedUsers(roomId: string, gracePeriodMs: number): string[] {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return [];
+    }
+
+    const cutoff = Date.now() - gracePeriodMs;
+    const stale = Array.from(room.users.values())
+      .filter(user => !user.connected && user.disconnectedAt && user.disconnectedAt.getTime() <= cutoff)
+      .map(user => user.id);
+
+    stale.forEach(userId => {
+      const user = room.users.get(userId) as User;
+      this.appendAudit(room, {
+        action: 'user-removed',
+        actor: null,
+        transport: 'system',
+        target: { id: user.id, name: user.name },
+        details: { reason: 'disconnected' }
+      });
+      this.removeUser(room, userId);
+    });
+    return stale;
   }
 
-  private updateUserConnectionStatus(userId: string, connected: boolean): void {
-    for (const room of this.rooms.values()) {
-      const user = room.users.get(userId);
-      if (user) {
-        const wasConnected = user.connected;
-        user.connected = connected;
-        
-        if (wasConnected !== connected) {
-          room.lastActivity = new Date();
-        }
-        break;
-      }
+  // Hand the facilitator role to a connected participant once the facilitator
+  // has been disconnected for longer than the threshold; the old facilitator
+  // stays on as a co-facilitator
+  failoverFacilitator(roomId: string, thresholdMs: number): FacilitatorFailover | null {
+    const room = this.rooms.get(roomId);
+    const facilitator = room ? this.getFacilitator(room) : null;
+    if (!room || !facilitator || facilitator.connected || !facilitator.disconnectedAt) {
+      return null;
+    }
+
+    if (facilitator.disconnectedAt.getTime() > Date.now() - thresholdMs) {
+      return null;
+    }
+
+    const failover = this.handOver(room, facilitator.id, 'disconnected');
+    if (!failover) {
+      return null;
     }
+
+    facilitator.role = 'co-facilitator';
+    this.rooms.save(room);
+    return failover;
   }
 
   getUserBySocketId(socketId: string): string | null {
     return this.socketUsers.get(socketId) || null;
   }
 
+  // Room and participant counts for the metrics endpoint
+  getStats(): { rooms: number; connectedUsers: number; disconnectedUsers: number } {
+    const stats = { rooms: 0, connectedUsers: 0, disconnectedUsers: 0 };
+    for (const room of this.rooms.values()) {
+      stats.rooms += 1;
+      room.users.forEach(user => {
+        if (user.connected) {
+          stats.connectedUsers += 1;
+        } else {
+          stats.disconnectedUsers += 1;
+        }
+      });
+    }
+    return stats;
+  }
+
   getRoomByUserId(userId: string): Room | null {
     for (const room of this.rooms.values()) {
       if (room.users.has(userId)) {
@@ -337,7 +1144,7 @@ class RoomService {
     return null;
   }
 
-  private generateRoomId(): string {
+  generateRoomId(): string {
     // Generate a 6-character room ID
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
     let result = '';
@@ -353,39 +1160,403 @@ class RoomService {
     return result;
   }
 
-  private cleanupInactiveRooms(): void {
-    const now = new Date();
-    const roomsToDelete: string[] = [];
+  // Rooms restored from a durable store have no live sockets yet
+  private restoreRooms(): void {
+    for (const room of this.rooms.values()) {
+      room.users.forEach(user => {
+        user.connected = false;
+        user.disconnectedAt = new Date();
+        user.socketId = undefined;
+      });
+      // Snapshots written before the audit log or view token revocation existed
+      room.auditLog = room.auditLog || [];
+      room.viewTokenNonce = room.viewTokenNonce || generateViewTokenNonce();
+    }
+  }
 
-    this.rooms.forEach((room, roomId) => {
-      const timeSinceLastActivity = now.getTime() - room.lastActivity.getTime();
-      if (timeSinceLastActivity > this.INACTIVE_ROOM_TIMEOUT) {
-        roomsToDelete.push(roomId);
-      }
-    });
+  // Record activity on a room and hand the change to the store
+  private touch(room: Room): void {
+    room.lastActivity = new Date();
+    this.rooms.save(room);
+  }
 
-    roomsToDelete.forEach(roomId => {
-      this.rooms.delete(roomId);
-    });
+  // Write pending room changes, e.g. before the process exits
+  flush(): void {
+    this.rooms.flush();
   }
 
   // Get all rooms (for debugging/admin purposes)
   getAllRooms(): RoomSummary[] {
-    return Array.from(this.rooms.values()).map(room => {
-      const admin = room.users.get(room.adminId);
-      return {
-        id: room.id,
-        name: room.name,
-        userCount: room.users.size,
-        adminName: admin?.name || 'Unknown',
-        story: room.story,
-        votingRevealed: room.votingRevealed,
-        estimationStarted: room.estimationStarted,
-        createdAt: room.createdAt,
-        lastActivity: room.lastActivity
-      };
+    return Array.from(this.rooms.values()).map(room => this.toRoomSummary(room));
+  }
+
+  // Everything held about a room for operators, without the passcode hash,
+  // invite tokens or webhook secrets
+  getRoomState(roomId: string): OperatorRoomState | null {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return null;
+    }
+
+    return {
+      room: this.toRoomSummary(room),
+      facilitatorId: room.facilitatorId,
+      users: Array.from(room.users.values()),
+      bans: room.bans || [],
+      invites: (room.invites || []).map(invite => this.toInviteSummary(invite)),
+      webhooks: (room.webhooks || []).map(webhook => this.toWebhookSummary(webhook)),
+      history: room.history,
+      auditLog: room.auditLog || [],
+      roundStartedAt: room.roundStartedAt
+    };
+  }
+
+  // Name of a participant, or null once they have left
+  getUserName(roomId: string, userId: string): string | null {
+    const user = this.rooms.get(roomId)?.users.get(userId);
+    return user ? user.name : null;
+  }
+
+  // Add a command to the room's audit log. Recording does not count as
+  // activity; the command itself already did.
+  recordAudit(roomId: string, entry: Omit<AuditEntry, 'at'>): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      this.appendAudit(room, entry);
+      this.rooms.save(room);
+    }
+  }
+
+  getAuditLog(roomId: string, userId: string): Outcome<{ entries: AuditEntry[] }> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'read the audit log');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    return { success: true, entries: room.auditLog || [] };
+  }
+
+  // When a command last ran in the room, or it was extended
+  getLastActivity(roomId: string): Date | null {
+    const room = this.rooms.get(roomId);
+    return room ? room.lastActivity : null;
+  }
+
+  // Keep an idle room open for another full idle timeout
+  extendRoom(roomId: string, userId: string): Outcome {
+    const room = this.getFacilitatingRoom(roomId, userId, 'extend the room');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    this.touch(room);
+    return { success: true };
+  }
+
+  // Close the room on purpose once the team is done
+  endSession(roomId: string, userId: string): Outcome<{ userIds: string[] }> {
+    const room = this.getFacilitatingRoom(roomId, userId, 'end the session');
+    if (isFailure(room)) {
+      return room;
+    }
+
+    return this.closeRoom(roomId);
+  }
+
+  // Remove a room that has been idle for too long
+  expireRoom(roomId: string): { userIds: string[] } | null {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return null;
+    }
+
+    webhookService.dispatch('room.expired', room, {
+      roomId,
+      name: room.name,
+      lastActivity: room.lastActivity
+    });
+    this.rooms.delete(roomId);
+    metrics.increment('spp_rooms_cleaned_up_total');
+    return { userIds: Array.from(room.users.keys()) };
+  }
+
+  // Close a room however many people are still in it. Returns who was in it
+  // so they can be told.
+  closeRoom(roomId: string): Outcome<{ userIds: string[] }> {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return fail('room-not-found', 'Room not found');
+    }
+
+    const userIds = Array.from(room.users.keys());
+    this.rooms.delete(roomId);
+    return { success: true, userIds };
+  }
+
+  // Make a participant the facilitator without the current facilitator
+  // handing over, e.g. when an operator steps in. The old facilitator stays
+  // on as a co-facilitator.
+  forceFacilitator(roomId: string, targetUserId: string): Outcome<{ previousFacilitatorId: string | null; facilitatorId: string }> {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return fail('room-not-found', 'Room not found');
+    }
+
+    const target = room.users.get(targetUserId);
+    if (!target) {
+      return fail('user-not-found', 'User not found in this room');
+    }
+
+    const current = this.getFacilitator(room);
+    if (current && current.id === target.id) {
+      return fail('invalid-request', 'User is already the facilitator');
+    }
+
+    if (current) {
+      current.role = 'co-facilitator';
+    }
+    target.role = 'facilitator';
+    room.facilitatorId = target.id;
+    this.touch(room);
+    return { success: true, previousFacilitatorId: current ? current.id : null, facilitatorId: target.id };
+  }
+
+  private toRoomSummary(room: Room): RoomSummary {
+    const facilitator = this.getFacilitator(room);
+    return {
+      id: room.id,
+      name: room.name,
+      userCount: room.users.size,
+      facilitatorName: facilitator ? facilitator.name : null,
+      story: this.getCurrentStory(room),
+      stories: room.stories,
+      currentStoryId: room.currentStoryId,
+      deck: room.deck,
+      settings: room.settings,
+      passcodeProtected: !!room.passcodeHash,
+      votingRevealed: room.votingRevealed,
+      estimationStarted: room.estimationStarted,
+      timer: this.toTimerState(room),
+      createdAt: room.createdAt,
+      lastActivity: room.lastActivity
+    };
+  }
+
+  private toWebhookSummary(webhook: Webhook): WebhookSummary {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      events: webhook.events,
+      roomId: webhook.roomId,
+      createdAt: webhook.createdAt
+    };
+  }
+
+  private findUsableInvite(room: Room, token: string): Invite | null {
+    const tokenHash = hashInviteToken(token);
+    const invite = (room.invites || []).find(candidate => candidate.tokenHash === tokenHash);
+    return invite && this.isInviteUsable(invite) ? invite : null;
+  }
+
+  private isInviteUsable(invite: Invite): boolean {
+    const expired = invite.expiresAt !== null && invite.expiresAt.getTime() <= Date.now();
+    const usedUp = invite.maxUses !== null && invite.uses >= invite.maxUses;
+    return !expired && !usedUp;
+  }
+
+  private toInviteSummary(invite: Invite): InviteSummary {
+    return {
+      id: invite.id,
+      createdBy: invite.createdBy,
+      createdAt: invite.createdAt,
+      expiresAt: invite.expiresAt,
+      maxUses: invite.maxUses,
+      uses: invite.uses
+    };
+  }
+
+  // The room and the acting user, or why the user cannot act in it
+  private getMembership(roomId: string, userId: string): { room: Room; user: User } | Failure {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return fail('room-not-found', 'Room not found');
+    }
+
+    const user = room.users.get(userId);
+    if (!user) {
+      return fail('not-a-member', 'You are not a member of this room');
+    }
+
+    return { room, user };
+  }
+
+  // Returns the room only if the user exists in it and is a facilitator or co-facilitator
+  private getFacilitatingRoom(roomId: string, userId: string, action: string): Room | Failure {
+    const membership = this.getMembership(roomId, userId);
+    if (isFailure(membership)) {
+      return membership;
+    }
+
+    if (!canFacilitate(membership.user)) {
+      return fail('not-authorized', `Only facilitators can ${action}`);
+    }
+
+    return membership.room;
+  }
+
+  private removeUser(room: Room, userId: string): FacilitatorFailover | null {
+    room.users.delete(userId);
+
+    // A leaving facilitator hands over as in a failover. With nobody
+    // connected the role stays vacant until someone claims it.
+    let failover: FacilitatorFailover | null = null;
+    if (room.facilitatorId === userId) {
+      room.facilitatorId = null;
+      failover = this.handOver(room, userId, 'left');
+    }
+
+    this.touch(room);
+
+    // Delete room if empty
+    if (room.users.size === 0) {
+      this.rooms.delete(room.id);
+    }
+    return failover;
+  }
+
+  // Give the facilitator role to a connected participant and record it in the
+  // audit log. Co-facilitators are preferred, then voters, then observers.
+  private handOver(room: Room, previousFacilitatorId: string, reason: 'disconnected' | 'left'): FacilitatorFailover | null {
+    const connected = Array.from(room.users.values()).filter(user => user.connected && user.id !== previousFacilitatorId);
+    const successor = (['co-facilitator', 'voter', 'observer'] as UserRole[])
+      .map(role => connected.find(user => user.role === role))
+      .find(user => user !== undefined);
+    if (!successor) {
+      return null;
+    }
+
+    successor.role = 'facilitator';
+    room.facilitatorId = successor.id;
+    this.appendAudit(room, {
+      action: 'facilitator-failover',
+      actor: null,
+      transport: 'system',
+      target: { id: successor.id, name: successor.name },
+      details: { previousFacilitatorId, reason }
+    });
+    return { previousFacilitatorId, facilitatorId: successor.id };
+  }
+
+  // Returns the room only if the user may moderate the target: facilitators and
+  // co-facilitators can act on anyone except themselves and the facilitator
+  private getModeratedRoom(roomId: string, userId: string, targetUserId: string, action: string): Room | Failure {
+    const room = this.getFacilitatingRoom(roomId, userId, action);
+    if (isFailure(room)) {
+      return room;
+    }
+
+    if (!room.users.has(targetUserId)) {
+      return fail('user-not-found', 'User not found in this room');
+    }
+    if (userId === targetUserId) {
+      return fail('invalid-request', 'You cannot do this to yourself');
+    }
+    if (room.facilitatorId === targetUserId) {
+      return fail('not-authorized', 'The facilitator cannot be removed or banned');
+    }
+
+    return room;
+  }
+
+  private normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+  }
+
+  private getFacilitator(room: Room): User | null {
+    return room.facilitatorId ? room.users.get(room.facilitatorId) || null : null;
+  }
+
+  private getCurrentStory(room: Room): Story | null {
+    return room.stories.find(story => story.id === room.currentStoryId) || null;
+  }
+
+  private createStory(fields: NewStory): Story {
+    return {
+      id: uuidv4(),
+      ...fields,
+      status: 'pending',
+      createdAt: new Date()
+    };
+  }
+
+  // Move the current story pointer to the next pending story, wrapping around
+  // to earlier pending stories, and start a fresh round of voting
+  private advanceToNextStory(room: Room): void {
+    const currentIndex = room.stories.findIndex(story => story.id === room.currentStoryId);
+    const ordered = [
+      ...room.stories.slice(currentIndex + 1),
+      ...room.stories.slice(0, Math.max(currentIndex, 0))
+    ];
+    const next = ordered.find(story => story.status === 'pending');
+
+    room.currentStoryId = next ? next.id : null;
+    this.clearVotes(room);
+  }
+
+  private clearVotes(room: Room): void {
+    room.users.forEach(user => {
+      user.estimate = undefined;
+      user.hasVoted = false;
+    });
+
+    room.votingRevealed = false;
+    room.estimationStarted = false;
+    room.roundStartedAt = new Date();
+    room.timer = null;
+  }
+
+  private toTimerState(room: Room): TimerState | null {
+    if (!room.timer) {
+      return null;
+    }
+
+    const remainingMs = Math.max(0, room.timer.endsAt.getTime() - Date.now());
+    return { ...room.timer, remainingSeconds: Math.ceil(remainingMs / 1000) };
+  }
+
+  // Snapshot the revealed round so it survives the next reset
+  private recordRound(room: Room, revealedBy: User | null): void {
+    const results = this.getVotingResults(room.id);
+    const story = this.getCurrentStory(room);
+
+    room.history.push({
+      id: uuidv4(),
+      story: story ? { ...story } : null,
+      votes: Array.from(room.users.values())
+        .filter(user => user.hasVoted && user.estimate)
+        .map(user => ({
+          userId: user.id,
+          userName: user.name,
+          estimate: user.estimate as string
+        })),
+      summary: results ? results.summary : { totalVotes: 0, uniqueEstimates: [], statistics: null },
+      startedAt: room.roundStartedAt,
+      revealedAt: new Date(),
+      revealedBy: revealedBy ? {
+        id: revealedBy.id,
+        name: revealedBy.name
+      } : null
     });
   }
+
+  // Add an entry to the room's audit log, stamped with the current time;
+  // callers save the room
+  private appendAudit(room: Room, entry: Omit<AuditEntry, 'at'>): void {
+    if (!room.auditLog) {
+      room.auditLog = [];
+    }
+    room.auditLog.push({ at: new Date(), ...entry });
+  }
 }
 
-export const roomService = new RoomService();
+export const roomService = new RoomService(createRoomStore());
@@ -0,0 +1,136 @@
+import { Response } from 'express';
+import { roomBroadcaster } from '../cluster';
+import { roomService } from './roomService';
+import { RoomSnapshot, ServerEventName, ViewClaims } from '../types';
+
+// Server-Sent Events for read-only dashboards. Streams are fed by the same
+// room events that go to socket clients, so they work on any instance. A
+// stream ends at the next event or keepalive after its view token expires or
+// is revoked.
+class RoomStreamService {
+  private readonly KEEPALIVE_INTERVAL = 25 * 1000; // 25 seconds
+  private streams = new Map<string, Map<Response, ViewClaims>>(); // roomId -> stream -> token claims
+  private keepalive: NodeJS.Timeout | null = null;
+
+  constructor() {
+    roomBroadcaster.onRoomEvent((roomId, event, data) => this.handleRoomEvent(roomId, event, data));
+  }
+
+  open(roomId: string, res: Response, claims: ViewClaims): void {
+    const snapshot = this.getSnapshot(roomId);
+    if (!snapshot) {
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Stop reverse proxies such as nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    this.send(res, 'snapshot', snapshot);
+
+    const streams = this.streams.get(roomId) || new Map<Response, ViewClaims>();
+    streams.set(res, claims);
+    this.streams.set(roomId, streams);
+    this.startKeepalive();
+
+    res.on('close', () => this.remove(roomId, res));
+  }
+
+  // End every stream, e.g. before the process exits
+  stopAll(): void {
+    this.streams.forEach(streams => streams.forEach((claims, res) => res.end()));
+    this.streams.clear();
+    this.stopKeepalive();
+  }
+
+  private handleRoomEvent(roomId: string, event: ServerEventName, data: unknown): void {
+    this.endRevoked(roomId);
+    const streams = this.streams.get(roomId);
+    if (!streams) {
+      return;
+    }
+
+    // Ticks and expiry notices do not change the room, so pass them on as
+    // they are
+    if (event === 'timer-tick' || event === 'room-expiring' || event === 'room-extended') {
+      streams.forEach((claims, res) => this.send(res, event, data));
+      return;
+    }
+
+    const snapshot = this.getSnapshot(roomId);
+    if (!snapshot) {
+      streams.forEach((claims, res) => res.end());
+      this.streams.delete(roomId);
+      return;
+    }
+
+    streams.forEach((claims, res) => this.send(res, 'snapshot', snapshot));
+  }
+
+  // End the room's streams whose token has expired or been revoked
+  private endRevoked(roomId: string): void {
+    this.streams.get(roomId)?.forEach((claims, res) => {
+      if (claims.exp <= Date.now() || !roomService.isViewTokenCurrent(roomId, claims.nonce)) {
+        res.end();
+        this.remove(roomId, res);
+      }
+    });
+  }
+
+  private getSnapshot(roomId: string): RoomSnapshot | null {
+    const room = roomService.getRoomSummary(roomId);
+    if (!room) {
+      return null;
+    }
+
+    return {
+      room,
+      users: roomService.getUsersInRoom(roomId),
+      results: roomService.getVotingResults(roomId)
+    };
+  }
+
+  private send(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private remove(roomId: string, res: Response): void {
+    const streams = this.streams.get(roomId);
+    if (!streams) {
+      return;
+    }
+
+    streams.delete(res);
+    if (streams.size === 0) {
+      this.streams.delete(roomId);
+    }
+    if (this.streams.size === 0) {
+      this.stopKeepalive();
+    }
+  }
+
+  // Comment lines keep idle connections from being closed by proxies
+  private startKeepalive(): void {
+    if (this.keepalive) {
+      return;
+    }
+
+    this.keepalive = setInterval(() => {
+      Array.from(this.streams.keys()).forEach(roomId => this.endRevoked(roomId));
+      this.streams.forEach(streams => streams.forEach((claims, res) => res.write(': keepalive\n\n')));
+    }, this.KEEPALIVE_INTERVAL);
+  }
+
+  private stopKeepalive(): void {
+    if (this.keepalive) {
+      clearInterval(this.keepalive);
+      this.keepalive = null;
+    }
+  }
+}
+
+export const roomStreams = new RoomStreamService();
@@ -0,0 +1,156 @@
+import { ExportFormat, Room, SessionReport, Story, StoryReport } from '../types';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'md'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  md: 'text/markdown; charset=utf-8'
+};
+
+// Every story that was estimated or voted on, in backlog order. Stories that
+// were removed from the backlog after being voted on are taken from the
+// snapshot in the round history and listed last. Rounds voted without a
+// story are not part of the report.
+export const buildSessionReport = (room: Room): SessionReport => {
+  const stories = new Map<string, Story>();
+  room.stories.forEach(story => stories.set(story.id, story));
+  room.history.forEach(round => {
+    if (round.story && !stories.has(round.story.id)) {
+      stories.set(round.story.id, round.story);
+    }
+  });
+
+  const reports = Array.from(stories.values())
+    .map((story): StoryReport => {
+      const rounds = room.history
+        .filter(round => round.story && round.story.id === story.id)
+        .map(round => ({
+          startedAt: round.startedAt,
+          revealedAt: round.revealedAt,
+          votes: round.votes,
+          statistics: round.summary.statistics
+        }));
+
+      // Without an explicit final estimate, a unanimous last round is the agreed one
+      const lastStatistics = rounds.length > 0 ? rounds[rounds.length - 1].statistics : null;
+      const consensusEstimate = lastStatistics && lastStatistics.consensus ? lastStatistics.mode[0] : null;
+
+      return {
+        id: story.id,
+        title: story.title,
+        description: story.description,
+        externalKey: story.externalKey || null,
+        link: story.link || null,
+        status: story.status,
+        finalEstimate: story.finalEstimate || consensusEstimate || null,
+        rounds
+      };
+    })
+    .filter(report => report.status === 'estimated' || report.rounds.length > 0);
+
+  return {
+    roomId: room.id,
+    roomName: room.name,
+    deck: room.deck,
+    createdAt: room.createdAt,
+    exportedAt: new Date(),
+    stories: reports
+  };
+};
+
+// Text starting with = + - @ (or a tab or carriage return) would run as a
+// formula when the file is opened in a spreadsheet, so it gets a leading '
+const csvField = (value: string | number | null): string => {
+  const raw = value === null ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatVotes = (report: StoryReport): string => {
+  const lastRound = report.rounds[report.rounds.length - 1];
+  return lastRound ? lastRound.votes.map(vote => `${vote.userName}: ${vote.estimate}`).join('; ') : '';
+};
+
+// One row per story; the votes and statistics are from the story's last round
+const toCsv = (report: SessionReport): string => {
+  const header = ['Key', 'Title', 'Link', 'Status', 'Final estimate', 'Rounds', 'Votes', 'Mean', 'Median', 'Mode', 'Consensus'];
+  const rows = report.stories.map(story => {
+    const lastRound = story.rounds[story.rounds.length - 1];
+    const stats = lastRound ? lastRound.statistics : null;
+
+    return [
+      story.externalKey,
+      story.title,
+      story.link,
+      story.status,
+      story.finalEstimate,
+      story.rounds.length,
+      formatVotes(story),
+      stats ? stats.mean : null,
+      stats ? stats.median : null,
+      stats ? stats.mode.join(' / ') : null,
+      stats ? (stats.consensus ? 'yes' : 'no') : null
+    ].map(csvField).join(',');
+  });
+
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const markdownCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const toMarkdown = (report: SessionReport): string => {
+  const lines = [
+    `# ${report.roomName} - estimation results`,
+    '',
+    `Room ${report.roomId}, exported ${report.exportedAt.toISOString()}. Deck: ${report.deck.cards.join(', ')}.`,
+    ''
+  ];
+
+  if (report.stories.length === 0) {
+    lines.push('No stories have been estimated yet.', '');
+  }
+
+  report.stories.forEach(story => {
+    const heading = story.externalKey ? `${story.externalKey}: ${story.title}` : story.title;
+    lines.push(`## ${heading}`, '');
+
+    if (story.link) {
+      lines.push(`Link: ${story.link}`, '');
+    }
+    lines.push(`**Final estimate:** ${story.finalEstimate || 'not agreed'}`, '');
+
+    story.rounds.forEach((round, index) => {
+      lines.push(`### Round ${index + 1}`, '', '| Voter | Estimate |', '| --- | --- |');
+      round.votes.forEach(vote => lines.push(`| ${markdownCell(vote.userName)} | ${markdownCell(vote.estimate)} |`));
+      lines.push('');
+
+      const stats = round.statistics;
+      if (stats) {
+        const parts = [
+          stats.mean !== null ? `mean ${stats.mean}` : null,
+          stats.median !== null ? `median ${stats.median}` : null,
+          stats.mode.length > 0 ? `mode ${stats.mode.join(' / ')}` : null,
+          stats.consensus ? 'consensus' : null,
+          stats.abstentions > 0 ? `${stats.abstentions} abstained` : null
+        ].filter(part => part !== null);
+        lines.push(`Statistics: ${parts.length > 0 ? parts.join(', ') : 'none'}`, '');
+      }
+    });
+  });
+
+  return lines.join('\n');
+};
+
+export const formatSessionReport = (report: SessionReport, format: ExportFormat): { contentType: string; body: string } => {
+  let body: string;
+  if (format === 'csv') {
+    body = toCsv(report);
+  } else if (format === 'md') {
+    body = toMarkdown(report);
+  } else {
+    body = JSON.stringify(report, null, 2);
+  }
+
+  return { contentType: CONTENT_TYPES[format], body };
+};
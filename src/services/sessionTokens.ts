@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { SessionClaims, ViewClaims } from '../types';
+
+let secret: string | null = null;
+
+// Read lazily so values loaded by dotenv after import are picked up
+const getSecret = (): string => {
+  if (!secret) {
+    secret = process.env.SESSION_SECRET || '';
+    if (!secret) {
+      console.warn('SESSION_SECRET is not set - using a random secret, sessions will not survive a restart');
+      secret = crypto.randomBytes(32).toString('hex');
+    }
+  }
+  return secret;
+};
+
+const sign = (payload: string): string =>
+  crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+// Token format: base64url(JSON claims) + '.' + base64url(HMAC-SHA256 of the first part)
+const encode = (claims: SessionClaims | ViewClaims): string => {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+const decode = (token: string): Record<string, unknown> | null => {
+  if (typeof token !== 'string') {
+    return null;
+  }
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return claims && typeof claims === 'object' ? claims : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const issueSessionToken = (roomId: string, userId: string): string =>
+  encode({ roomId, userId, iat: Date.now() });
+
+export const verifySessionToken = (token: string): SessionClaims | null => {
+  const claims = decode(token);
+  if (!claims || typeof claims.roomId !== 'string' || typeof claims.userId !== 'string') {
+    return null;
+  }
+  return claims as unknown as SessionClaims;
+};
+
+// View tokens carry no user, so they can never be used as a session token.
+// The nonce ties them to the room they were issued for rather than to its
+// ID, which a later room may reuse.
+export const issueViewToken = (roomId: string, nonce: string, expiresAt: Date): string =>
+  encode({ roomId, scope: 'view', nonce, iat: Date.now(), exp: expiresAt.getTime() });
+
+// Checks the signature and expiry; whether the nonce is still the room's is
+// up to the caller
+export const verifyViewToken = (token: string): ViewClaims | null => {
+  const claims = decode(token);
+  if (!claims || typeof claims.roomId !== 'string' || claims.scope !== 'view' || typeof claims.nonce !== 'string') {
+    return null;
+  }
+  if (typeof claims.exp !== 'number' || claims.exp <= Date.now()) {
+    return null;
+  }
+  return claims as unknown as ViewClaims;
+};
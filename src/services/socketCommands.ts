@@ -0,0 +1,49 @@
+import { Server, Socket } from 'socket.io';
+import { toSocketError } from './failures';
+import { ClientToServerEvents, Outcome, ServerToClientEvents, SocketData, SocketError } from '../types';
+
+export type AppServer = Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+export type AppSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+export interface SocketReply {
+  ok: (data?: unknown) => void;
+  fail: (error: SocketError) => void;
+  // Answer with a command's outcome
+  settle: (result: Outcome, data?: unknown) => void;
+}
+
+// Answer a client command through its acknowledgement callback when it sent
+// one. Clients that did not are still told about failures with an 'error' event.
+export const replyTo = (socket: AppSocket, ack: unknown): SocketReply => {
+  const callback = typeof ack === 'function' ? ack : null;
+
+  const ok = (data?: unknown): void => {
+    callback?.(data === undefined ? { success: true } : { success: true, data });
+  };
+  const fail = (error: SocketError): void => {
+    if (callback) {
+      callback({ success: false, error });
+    } else {
+      socket.emit('error', error);
+    }
+  };
+
+  return {
+    ok,
+    fail,
+    settle: (result, data) => (result.success ? ok(data) : fail(toSocketError(result)))
+  };
+};
+
+// Clients send the ack callback as the last argument, after whatever else
+// they passed
+export const findAck = (args: unknown[]): unknown => {
+  const last = args[args.length - 1];
+  return typeof last === 'function' ? last : undefined;
+};
+
+// Wrap a command that takes no payload; anything sent before the ack is ignored
+export const withAck = (socket: AppSocket, handler: (reply: SocketReply) => void | Promise<void>) =>
+  (...args: unknown[]): void => {
+    void handler(replyTo(socket, findAck(args)));
+  };
@@ -0,0 +1,224 @@
+import { NewStory, StoryImportRejection } from '../types';
+
+export type StoryImportFormat = 'csv' | 'json';
+
+export interface ParsedStoryRow {
+  row: number;
+  story: NewStory;
+}
+
+export interface CsvRecord {
+  // Line of the file the record starts on, counting the header as line 1
+  line: number;
+  values: string[];
+}
+
+export interface StoryImportParseResult {
+  rows: ParsedStoryRow[];
+  rejected: StoryImportRejection[];
+  error?: string;
+}
+
+const MAX_STORIES = 500;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_KEY_LENGTH = 100;
+const MAX_LINK_LENGTH = 2000;
+
+// Column names accepted for each field, compared case-insensitively with
+// spaces, dashes and underscores removed so tracker exports work as they are
+const COLUMN_ALIASES: Record<keyof NewStory, string[]> = {
+  title: ['title', 'summary', 'name', 'story'],
+  description: ['description', 'details', 'body'],
+  externalKey: ['externalkey', 'key', 'issuekey', 'id', 'issueid', 'ticket'],
+  link: ['link', 'url', 'href']
+};
+
+const normalizeColumn = (column: string): string => column.toLowerCase().replace(/[\s_-]/g, '');
+
+// RFC 4180 CSV: quoted fields may contain delimiters, newlines and "" escapes.
+// The delimiter (comma, semicolon or tab) is taken from the header line.
+// Blank lines are skipped but still counted, so line numbers match the file.
+export const parseCsv = (text: string): CsvRecord[] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const headerLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: headerLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push({ line: recordLine, values: record });
+      record = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push({ line: recordLine, values: record });
+  }
+
+  // Skip blank lines
+  return records.filter(r => r.values.some(value => value.trim() !== ''));
+};
+
+// Data rows keyed by column, numbered by the line they start on
+const csvToItems = (text: string): { row: number; item: Record<string, unknown> }[] => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.values.map(normalizeColumn);
+  return records.map(({ line, values }) => ({
+    row: line,
+    item: columns.reduce((acc, column, index) => {
+      acc[column] = values[index];
+      return acc;
+    }, {} as Record<string, unknown>)
+  }));
+};
+
+const pickField = (item: Record<string, unknown>, field: keyof NewStory): unknown => {
+  const entry = Object.entries(item).find(([key]) => COLUMN_ALIASES[field].includes(normalizeColumn(key)));
+  return entry ? entry[1] : undefined;
+};
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+};
+
+const toStory = (item: unknown): { story?: NewStory; reason?: string } => {
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+    return { reason: 'Row is not an object' };
+  }
+
+  const values = item as Record<string, unknown>;
+  const asText = (value: unknown): string => (typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '');
+  const title = asText(pickField(values, 'title'));
+  const description = asText(pickField(values, 'description'));
+  const externalKey = asText(pickField(values, 'externalKey'));
+  const link = asText(pickField(values, 'link'));
+
+  if (!title) {
+    return { reason: 'Title is required' };
+  }
+  if (title.length > MAX_TITLE_LENGTH) {
+    return { reason: `Title is longer than ${MAX_TITLE_LENGTH} characters` };
+  }
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    return { reason: `Description is longer than ${MAX_DESCRIPTION_LENGTH} characters` };
+  }
+  if (externalKey.length > MAX_KEY_LENGTH) {
+    return { reason: `External key is longer than ${MAX_KEY_LENGTH} characters` };
+  }
+  if (link && (link.length > MAX_LINK_LENGTH || !isHttpUrl(link))) {
+    return { reason: 'Link must be an http or https URL' };
+  }
+
+  return {
+    story: {
+      title,
+      description,
+      ...(externalKey ? { externalKey } : {}),
+      ...(link ? { link } : {})
+    }
+  };
+};
+
+// Turn a CSV document or a JSON array (or { stories: [...] }) into stories,
+// collecting every row that cannot be imported along with the reason. CSV rows
+// are numbered by the line of the file they start on, JSON rows by their
+// position in the array, from 1.
+export const parseStoryImport = (format: StoryImportFormat, payload: unknown): StoryImportParseResult => {
+  let items: { row: number; item: unknown }[];
+
+  try {
+    if (format === 'csv') {
+      if (typeof payload !== 'string') {
+        return { rows: [], rejected: [], error: 'CSV data must be sent as text' };
+      }
+      items = csvToItems(payload);
+    } else {
+      const list = Array.isArray(payload) ? payload : (payload as { stories?: unknown })?.stories;
+      if (!Array.isArray(list)) {
+        return { rows: [], rejected: [], error: 'JSON data must be an array of stories or { "stories": [...] }' };
+      }
+      items = list.map((item, index) => ({ row: index + 1, item }));
+    }
+  } catch (error) {
+    return { rows: [], rejected: [], error: `Could not parse ${format.toUpperCase()}: ${(error as Error).message}` };
+  }
+
+  if (items.length === 0) {
+    return { rows: [], rejected: [], error: 'No stories found' };
+  }
+  if (items.length > MAX_STORIES) {
+    return { rows: [], rejected: [], error: `Cannot import more than ${MAX_STORIES} stories at once` };
+  }
+
+  const rows: ParsedStoryRow[] = [];
+  const rejected: StoryImportRejection[] = [];
+  const seenKeys = new Set<string>();
+
+  items.forEach(({ row, item }) => {
+    const { story, reason } = toStory(item);
+
+    if (!story) {
+      rejected.push({ row, reason: reason as string });
+    } else if (story.externalKey && seenKeys.has(story.externalKey)) {
+      rejected.push({ row, reason: `Duplicate external key '${story.externalKey}' in import` });
+    } else {
+      if (story.externalKey) {
+        seenKeys.add(story.externalKey);
+      }
+      rows.push({ row, story });
+    }
+  });
+
+  return { rows, rejected };
+};
@@ -0,0 +1,75 @@
+import { roomBroadcaster, roomRouter } from '../cluster';
+import { roomService } from './roomService';
+import { notifyVotesRevealed } from './roomEvents';
+
+// Drives the countdowns stored on rooms: broadcasts the remaining time every
+// second and expires the timer, revealing votes if it was started with auto-reveal.
+// Only the instance that owns a room runs its timer.
+class TimerService {
+  private readonly TICK_INTERVAL = 1000; // 1 second
+  private intervals: Map<string, NodeJS.Timeout> = new Map(); // roomId -> tick interval
+
+  // Start ticking for the timer currently set on the room
+  schedule(roomId: string): void {
+    this.cancel(roomId);
+
+    const timer = roomService.getTimer(roomId);
+    if (!timer) {
+      return;
+    }
+
+    const interval = setInterval(() => this.tick(roomId, timer.id), this.TICK_INTERVAL);
+    this.intervals.set(roomId, interval);
+  }
+
+  cancel(roomId: string): void {
+    const interval = this.intervals.get(roomId);
+    if (interval) {
+      clearInterval(interval);
+      this.intervals.delete(roomId);
+    }
+  }
+
+  // Pick up timers of rooms restored from a durable store or taken over from
+  // another instance
+  resumeAll(): void {
+    roomService.getAllRooms()
+      .filter(room => room.timer && !this.intervals.has(room.id) && roomRouter.owns(room.id))
+      .forEach(room => this.schedule(room.id));
+  }
+
+  stopAll(): void {
+    Array.from(this.intervals.keys()).forEach(roomId => this.cancel(roomId));
+  }
+
+  private tick(roomId: string, timerId: string): void {
+    const timer = roomService.getTimer(roomId);
+
+    // Stopped, replaced, cleared by a reveal or reset, or the room has moved
+    // to another instance
+    if (!timer || timer.id !== timerId || !roomRouter.owns(roomId)) {
+      this.cancel(roomId);
+      return;
+    }
+
+    if (timer.remainingSeconds > 0) {
+      roomBroadcaster.toRoom(roomId, 'timer-tick', {
+        timerId,
+        remainingSeconds: timer.remainingSeconds,
+        endsAt: timer.endsAt
+      });
+      return;
+    }
+
+    this.cancel(roomId);
+    const { expired, revealed } = roomService.expireTimer(roomId, timerId);
+    if (expired) {
+      roomBroadcaster.toRoom(roomId, 'timer-ended', { timerId, autoRevealed: revealed });
+      if (revealed) {
+        notifyVotesRevealed(roomId);
+      }
+    }
+  }
+}
+
+export const timerService = new TimerService();
@@ -0,0 +1,91 @@
+import { Deck, OutlierVoter, VotingStatistics } from '../types';
+import { SPECIAL_CARDS } from './decks';
+
+export interface CastVote {
+  userId: string;
+  name: string;
+  estimate: string;
+}
+
+const NUMERIC_CARD = /^\d+(\.\d+)?$/;
+
+const toNumber = (card: string): number | null => (NUMERIC_CARD.test(card) ? parseFloat(card) : null);
+
+const isSpecialCard = (card: string): boolean => SPECIAL_CARDS.includes(card);
+
+// A deck is numeric when every card other than ? and coffee is a number
+export const isNumericDeck = (deck: Deck): boolean =>
+  deck.cards.filter(card => !isSpecialCard(card)).every(card => toNumber(card) !== null);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Statistics for a revealed round. Special cards (? and coffee) are counted in
+// the distribution but treated as abstentions everywhere else, and cards are
+// ranked by their position in the deck so T-shirt sizes get a spread too.
+export const calculateVotingStatistics = (votes: CastVote[], deck: Deck): VotingStatistics => {
+  const counts = votes.reduce((acc, vote) => {
+    acc[vote.estimate] = (acc[vote.estimate] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  const deckPosition = (card: string): number => {
+    const index = deck.cards.indexOf(card);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+
+  const distribution = Object.keys(counts)
+    .sort((a, b) => deckPosition(a) - deckPosition(b))
+    .map(estimate => ({
+      estimate,
+      count: counts[estimate],
+      percentage: round((counts[estimate] / votes.length) * 100)
+    }));
+
+  const estimateVotes = votes.filter(vote => !isSpecialCard(vote.estimate));
+  const abstentions = votes.length - estimateVotes.length;
+
+  const highestCount = Math.max(0, ...estimateVotes.map(vote => counts[vote.estimate]));
+  const mode = distribution
+    .filter(entry => !isSpecialCard(entry.estimate) && entry.count === highestCount)
+    .map(entry => entry.estimate);
+
+  const numericValues = isNumericDeck(deck)
+    ? estimateVotes.map(vote => toNumber(vote.estimate)).filter((value): value is number => value !== null)
+    : [];
+
+  const rankedVotes = estimateVotes.filter(vote => deck.cards.includes(vote.estimate));
+  const positions = rankedVotes.map(vote => deckPosition(vote.estimate));
+  const lowestPosition = Math.min(...positions);
+  const highestPosition = Math.max(...positions);
+  const spread = rankedVotes.length > 0 ? highestPosition - lowestPosition : null;
+
+  const consensus = estimateVotes.length > 0 && new Set(estimateVotes.map(vote => vote.estimate)).size === 1;
+  const nearConsensus = !consensus && spread !== null && spread <= 1 && rankedVotes.length === estimateVotes.length;
+
+  const votersAt = (position: number): OutlierVoter[] =>
+    rankedVotes
+      .filter(vote => deckPosition(vote.estimate) === position)
+      .map(vote => ({ userId: vote.userId, name: vote.name, estimate: vote.estimate }));
+
+  return {
+    distribution,
+    estimateVotes: estimateVotes.length,
+    abstentions,
+    mean: numericValues.length > 0 ? round(numericValues.reduce((sum, value) => sum + value, 0) / numericValues.length) : null,
+    median: numericValues.length > 0 ? median(numericValues) : null,
+    mode,
+    consensus,
+    nearConsensus,
+    spread,
+    outliers: {
+      highest: spread ? votersAt(highestPosition) : [],
+      lowest: spread ? votersAt(lowestPosition) : []
+    }
+  };
+};
@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { Outcome, Room, Webhook, WebhookDelivery, WebhookEvent } from '../types';
+import { fail } from './failures';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['room.created', 'votes.revealed', 'story.estimated', 'room.expired'];
+
+// Room webhooks are set up by whoever creates a room, so they may not reach
+// the server itself or the network it runs in: loopback, link-local, private,
+// unique-local, multicast and reserved addresses, including IPv4 addresses
+// written as IPv6
+const BLOCKED_ADDRESSES = new net.BlockList();
+const BLOCKED_IPV4_SUBNETS: [string, number][] = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4]
+];
+const BLOCKED_IPV6_SUBNETS: [string, number][] = [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+];
+BLOCKED_IPV4_SUBNETS.forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+BLOCKED_IPV6_SUBNETS.forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  roomId: string;
+  timestamp: string;
+  data: unknown;
+}
+
+// Signs and posts event payloads to webhook subscribers, retrying failed
+// deliveries with exponential backoff and keeping a short delivery log
+class WebhookService {
+  private readonly MAX_ATTEMPTS = 5;
+  private readonly RETRY_BASE_DELAY = 1000; // 1 second, doubled after every attempt
+  private readonly REQUEST_TIMEOUT = 10 * 1000; // 10 seconds
+  private readonly DELIVERY_LOG_SIZE = 50; // per webhook
+  private deliveries: Map<string, WebhookDelivery[]> = new Map(); // webhookId -> newest first
+  private retries: Set<NodeJS.Timeout> = new Set();
+  private serverWebhooks: Webhook[] | null = null;
+
+  // Send an event to the server-wide webhooks and the room's own webhooks
+  dispatch(event: WebhookEvent, room: Room, data: unknown): void {
+    const subscribers = [...this.getServerWebhooks(), ...(room.webhooks || [])]
+      .filter(webhook => webhook.events.includes(event));
+
+    subscribers.forEach(webhook => {
+      const payload: WebhookPayload = {
+        id: uuidv4(),
+        event,
+        roomId: room.id,
+        timestamp: new Date().toISOString(),
+        data
+      };
+
+      const delivery: WebhookDelivery = {
+        id: payload.id,
+        webhookId: webhook.id,
+        event,
+        status: 'pending',
+        attempts: 0,
+        statusCode: null,
+        error: null,
+        createdAt: new Date(),
+        completedAt: null
+      };
+
+      this.logDelivery(delivery);
+      void this.attempt(webhook, JSON.stringify(payload), delivery);
+    });
+  }
+
+  getDeliveries(webhookId: string): WebhookDelivery[] {
+    return this.deliveries.get(webhookId) || [];
+  }
+
+  forgetWebhook(webhookId: string): void {
+    this.deliveries.delete(webhookId);
+  }
+
+  generateSecret(): string {
+    return crypto.randomBytes(24).toString('hex');
+  }
+
+  // Signature over "<timestamp>.<body>" so receivers can reject replayed payloads
+  sign(secret: string, timestamp: string, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  // Whether a room webhook may be sent to the URL, checked when it is added
+  async checkTarget(url: string): Promise<Outcome> {
+    try {
+      await this.assertPublicTarget(url);
+      return { success: true };
+    } catch (error) {
+      return fail('invalid-request', (error as Error).message);
+    }
+  }
+
+  // Drop pending retries, e.g. before the process exits
+  stopAll(): void {
+    this.retries.forEach(timeout => clearTimeout(timeout));
+    this.retries.clear();
+  }
+
+  private async attempt(webhook: Webhook, body: string, delivery: WebhookDelivery): Promise<void> {
+    delivery.attempts++;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    try {
+      // Checked again on every attempt, since the host's DNS records may have
+      // changed. Server-wide webhooks are set by the operator.
+      if (webhook.roomId !== null) {
+        await this.assertPublicTarget(webhook.url);
+      }
+
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'storypointpoker-webhooks',
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${this.sign(webhook.secret, timestamp, body)}`
+        },
+        body,
+        // A redirect could lead anywhere, so it counts as a failed attempt
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.REQUEST_TIMEOUT)
+      });
+
+      delivery.statusCode = response.status;
+      if (response.ok) {
+        delivery.status = 'delivered';
+        delivery.error = null;
+        delivery.completedAt = new Date();
+        return;
+      }
+      delivery.error = `Responded with HTTP ${response.status}`;
+    } catch (error) {
+      delivery.statusCode = null;
+      delivery.error = (error as Error).message;
+    }
+
+    if (delivery.attempts >= this.MAX_ATTEMPTS) {
+      delivery.status = 'failed';
+      delivery.completedAt = new Date();
+      console.error(`Webhook ${webhook.id} gave up on ${delivery.event} delivery ${delivery.id}: ${delivery.error}`);
+      return;
+    }
+
+    const delay = this.RETRY_BASE_DELAY * Math.pow(2, delivery.attempts - 1);
+    const timeout = setTimeout(() => {
+      this.retries.delete(timeout);
+      void this.attempt(webhook, body, delivery);
+    }, delay);
+    this.retries.add(timeout);
+  }
+
+  private async assertPublicTarget(url: string): Promise<void> {
+    let host: string;
+    try {
+      // IPv6 hosts keep their brackets in URLs
+      host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+    } catch (error) {
+      throw new Error('Webhook URL is not valid');
+    }
+
+    let addresses: dns.LookupAddress[];
+    try {
+      addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+    } catch (error) {
+      throw new Error(`Webhook host ${host} could not be resolved`);
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address, family }) => BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+      throw new Error('Webhooks cannot be sent to loopback, link-local or private addresses');
+    }
+  }
+
+  private logDelivery(delivery: WebhookDelivery): void {
+    const log = this.deliveries.get(delivery.webhookId) || [];
+    log.unshift(delivery);
+    this.deliveries.set(delivery.webhookId, log.slice(0, this.DELIVERY_LOG_SIZE));
+  }
+
+  // WEBHOOK_URLS is a comma-separated list of endpoints that receive the
+  // events of every room, signed with WEBHOOK_SECRET. WEBHOOK_EVENTS limits
+  // which events they get. Read lazily so values loaded by dotenv are picked up.
+  private getServerWebhooks(): Webhook[] {
+    if (!this.serverWebhooks) {
+      const urls = (process.env.WEBHOOK_URLS || '').split(',').map(url => url.trim()).filter(Boolean);
+      const secret = process.env.WEBHOOK_SECRET || '';
+      const events = (process.env.WEBHOOK_EVENTS || '').split(',').map(event => event.trim()).filter(Boolean);
+
+      if (urls.length > 0 && !secret) {
+        console.warn('WEBHOOK_URLS is set without WEBHOOK_SECRET - server-wide webhooks are disabled');
+      }
+
+      this.serverWebhooks = secret ? urls.map((url, index) => ({
+        id: `server-${index + 1}`,
+        url,
+        events: events.length > 0 ? events.filter((event): event is WebhookEvent => WEBHOOK_EVENTS.includes(event as WebhookEvent)) : [...WEBHOOK_EVENTS],
+        secret,
+        roomId: null,
+        createdAt: new Date()
+      })) : [];
+    }
+    return this.serverWebhooks;
+  }
+}
+
+export const webhookService = new WebhookService();
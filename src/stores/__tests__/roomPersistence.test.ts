@@ -0,0 +1,205 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { deserializeRooms, serializeRooms } from '../serialization';
+import { FileRoomStore } from '../fileRoomStore';
+import { Room, User } from '../../types';
+
+// A room with every kind of Date and Map field the stores have to keep
+const createTestRoom = (id: string = 'ABC123'): Room => {
+  const facilitator: User = {
+    id: 'user-1',
+    name: 'Ann',
+    role: 'facilitator',
+    estimate: '5',
+    hasVoted: true,
+    joinedAt: new Date('2024-01-01T10:00:00.000Z'),
+    connected: true
+  };
+  const voter: User = {
+    id: 'user-2',
+    name: 'Bob',
+    role: 'voter',
+    hasVoted: false,
+    joinedAt: new Date('2024-01-01T10:01:00.000Z'),
+    connected: false,
+    disconnectedAt: new Date('2024-01-01T10:05:00.000Z')
+  };
+
+  return {
+    id,
+    name: 'Sprint planning',
+    facilitatorId: facilitator.id,
+    users: new Map([[facilitator.id, facilitator], [voter.id, voter]]),
+    stories: [{
+      id: 'story-1',
+      title: 'Login page',
+      description: '',
+      status: 'pending',
+      createdAt: new Date('2024-01-01T10:02:00.000Z')
+    }],
+    currentStoryId: 'story-1',
+    deck: { type: 'fibonacci', cards: ['1', '2', '3', '5', '8'] },
+    settings: { autoRevealWhenAllVoted: false },
+    votingRevealed: false,
+    estimationStarted: true,
+    roundStartedAt: new Date('2024-01-01T10:03:00.000Z'),
+    timer: null,
+    history: [],
+    auditLog: [{
+      at: new Date('2024-01-01T10:00:00.000Z'),
+      action: 'room-created',
+      actor: { id: facilitator.id, name: facilitator.name },
+      transport: 'rest'
+    }],
+    bans: [],
+    webhooks: [],
+    passcodeHash: null,
+    invites: [{
+      id: 'invite-1',
+      tokenHash: 'hash',
+      createdBy: facilitator.id,
+      createdAt: new Date('2024-01-01T10:04:00.000Z'),
+      expiresAt: null,
+      maxUses: 5,
+      uses: 1
+    }],
+    viewTokenNonce: 'nonce',
+    createdAt: new Date('2024-01-01T10:00:00.000Z'),
+    lastActivity: new Date('2024-01-01T10:06:00.000Z')
+  };
+};
+
+describe('serializeRooms / deserializeRooms', () => {
+  it('round-trips Date and Map fields', () => {
+    const room = createTestRoom();
+
+    const [restored] = deserializeRooms(serializeRooms([room]));
+
+    expect(restored).toEqual(room);
+    expect(restored.users).toBeInstanceOf(Map);
+    expect(restored.users.get('user-2')?.disconnectedAt).toBeInstanceOf(Date);
+    expect(restored.createdAt).toBeInstanceOf(Date);
+    expect(restored.lastActivity.getTime()).toBe(room.lastActivity.getTime());
+    expect(restored.stories[0].createdAt).toBeInstanceOf(Date);
+    expect(restored.invites[0].createdAt).toBeInstanceOf(Date);
+    expect(restored.auditLog[0].at).toBeInstanceOf(Date);
+  });
+
+  it('keeps optional fields that are missing or null as they were', () => {
+    const room = createTestRoom();
+
+    const [restored] = deserializeRooms(serializeRooms([room]));
+
+    expect(restored.users.get('user-2')?.estimate).toBeUndefined();
+    expect(restored.invites[0].expiresAt).toBeNull();
+    expect(restored.timer).toBeNull();
+  });
+
+  it('returns no rooms for a snapshot without a room list', () => {
+    expect(deserializeRooms('{}')).toEqual([]);
+  });
+});
+
+describe('FileRoomStore', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'spp-rooms-'));
+    filePath = path.join(directory, 'rooms.json');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('starts empty when there is no snapshot file', () => {
+    const store = new FileRoomStore(filePath);
+
+    expect(Array.from(store.values())).toEqual([]);
+  });
+
+  it('restores the rooms it flushed', () => {
+    const room = createTestRoom();
+    const store = new FileRoomStore(filePath);
+    store.save(room);
+    store.flush();
+
+    const restored = new FileRoomStore(filePath);
+
+    expect(restored.get(room.id)).toEqual(room);
+    expect(restored.get(room.id)?.users).toBeInstanceOf(Map);
+  });
+
+  it('leaves deleted rooms out of the snapshot', () => {
+    const store = new FileRoomStore(filePath);
+    store.save(createTestRoom('ROOM01'));
+    store.save(createTestRoom('ROOM02'));
+    store.delete('ROOM01');
+    store.flush();
+
+    const restored = new FileRoomStore(filePath);
+
+    expect(restored.has('ROOM01')).toBe(false);
+    expect(restored.has('ROOM02')).toBe(true);
+  });
+
+  // Holds the next call to one of the store's async file operations until released
+  const pauseNext = (method: 'writeFile' | 'rename') => {
+    const original = fs.promises[method] as (...args: unknown[]) => Promise<void>;
+    let reached: () => void = () => undefined;
+    let release: () => void = () => undefined;
+    const paused = new Promise<void>(resolve => { reached = resolve; });
+    const released = new Promise<void>(resolve => { release = resolve; });
+    let done: Promise<void> = Promise.resolve();
+
+    jest.spyOn(fs.promises, method).mockImplementationOnce(((...args: unknown[]) => {
+      reached();
+      done = released.then(() => original(...args));
+      return done;
+    }) as never);
+
+    return { paused, release, finished: () => done };
+  };
+
+  const settleWrite = async (): Promise<void> => {
+    for (let i = 0; i < 10; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  it.each(['writeFile', 'rename'] as const)('keeps the flushed snapshot when a background write is still in its %s', async method => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    const store = new FileRoomStore(filePath);
+    const room = createTestRoom();
+    const gate = pauseNext(method);
+
+    room.name = 'Planning';
+    store.save(room);
+    jest.advanceTimersByTime(1000);
+    await gate.paused;
+
+    room.name = 'Refinement';
+    store.save(room);
+    store.flush();
+
+    gate.release();
+    await gate.finished();
+    await settleWrite();
+
+    expect(new FileRoomStore(filePath).get(room.id)?.name).toBe('Refinement');
+    expect(fs.readdirSync(directory)).toEqual(['rooms.json']);
+  });
+
+  it('starts empty when the snapshot cannot be read', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fs.writeFileSync(filePath, 'not json');
+
+    const store = new FileRoomStore(filePath);
+
+    expect(Array.from(store.values())).toEqual([]);
+  });
+});
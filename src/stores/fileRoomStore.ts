@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+import { Room } from '../types';
+import { MemoryRoomStore } from './memoryRoomStore';
+import { deserializeRooms, serializeRooms } from './serialization';
+
+// Keeps rooms in memory and writes a snapshot of all of them to a JSON file,
+// batching changes that happen within WRITE_DELAY of each other
+export class FileRoomStore extends MemoryRoomStore {
+  private readonly WRITE_DELAY = 1000; // 1 second
+  private writeTimer: NodeJS.Timeout | null = null;
+  private writing = false;
+  private dirty = false;
+  private flushes = 0;
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.load();
+  }
+
+  save(room: Room): void {
+    super.save(room);
+    this.scheduleWrite();
+  }
+
+  delete(roomId: string): void {
+    super.delete(roomId);
+    this.scheduleWrite();
+  }
+
+  flush(): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    if (this.dirty || this.writing) {
+      this.dirty = false;
+      this.flushes++;
+      this.writeSnapshotSync();
+    }
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const rooms = deserializeRooms(fs.readFileSync(this.filePath, 'utf8'));
+      rooms.forEach(room => this.rooms.set(room.id, room));
+    } catch (error) {
+      console.error(`Failed to restore rooms from ${this.filePath}:`, error);
+    }
+  }
+
+  private scheduleWrite(): void {
+    this.dirty = true;
+    if (this.writeTimer) {
+      return;
+    }
+
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.writeSnapshot();
+    }, this.WRITE_DELAY);
+    this.writeTimer.unref();
+  }
+
+  // Write to a temporary file and rename it so a crash never leaves a half-written snapshot
+  private async writeSnapshot(): Promise<void> {
+    if (this.writing) {
+      // Another write is in progress; it reschedules once it finishes
+      return;
+    }
+
+    this.writing = true;
+    this.dirty = false;
+    const tempPath = `${this.filePath}.tmp`;
+    const flushes = this.flushes;
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, serializeRooms(Array.from(this.rooms.values())));
+
+      // A flush while this snapshot was being written has saved newer state
+      if (this.flushes !== flushes) {
+        await fs.promises.unlink(tempPath);
+        return;
+      }
+      await fs.promises.rename(tempPath, this.filePath);
+      // ...or did so while it was being renamed into place
+      if (this.flushes !== flushes) {
+        this.writeSnapshotSync();
+      }
+    } catch (error) {
+      console.error(`Failed to write rooms to ${this.filePath}:`, error);
+    } finally {
+      this.writing = false;
+      if (this.dirty) {
+        this.scheduleWrite();
+      }
+    }
+  }
+
+  private writeSnapshotSync(): void {
+    const tempPath = `${this.filePath}.sync.tmp`;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tempPath, serializeRooms(Array.from(this.rooms.values())));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      console.error(`Failed to write rooms to ${this.filePath}:`, error);
+    }
+  }
+}
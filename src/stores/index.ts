@@ -0,0 +1,28 @@
+import { RoomStore } from './roomStore';
+import { MemoryRoomStore } from './memoryRoomStore';
+import { FileRoomStore } from './fileRoomStore';
+import { ReplicatedRoomStore } from './replicatedRoomStore';
+import { isClustered, messageBus, roomRouter } from '../cluster';
+
+export { RoomStore, MemoryRoomStore, FileRoomStore, ReplicatedRoomStore };
+
+// ROOM_STORE=memory (default) keeps rooms for the lifetime of the process,
+// ROOM_STORE=file persists them to ROOM_STORE_FILE. When running several
+// instances the store is shared with the others through the message bus.
+export const createRoomStore = (): RoomStore => {
+  const type = process.env.ROOM_STORE || 'memory';
+
+  let store: RoomStore;
+  switch (type) {
+    case 'memory':
+      store = new MemoryRoomStore();
+      break;
+    case 'file':
+      store = new FileRoomStore(process.env.ROOM_STORE_FILE || './data/rooms.json');
+      break;
+    default:
+      throw new Error(`Unknown ROOM_STORE '${type}' - expected 'memory' or 'file'`);
+  }
+
+  return isClustered() ? new ReplicatedRoomStore(store, messageBus, roomRouter) : store;
+};
@@ -0,0 +1,30 @@
+import { Room } from '../types';
+import { RoomStore } from './roomStore';
+
+export class MemoryRoomStore implements RoomStore {
+  protected rooms: Map<string, Room> = new Map();
+
+  get(roomId: string): Room | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  has(roomId: string): boolean {
+    return this.rooms.has(roomId);
+  }
+
+  save(room: Room): void {
+    this.rooms.set(room.id, room);
+  }
+
+  delete(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+
+  values(): IterableIterator<Room> {
+    return this.rooms.values();
+  }
+
+  flush(): void {
+    // Nothing to write
+  }
+}
@@ -0,0 +1,89 @@
+import { Room } from '../types';
+import { MessageBus } from '../cluster/messageBus';
+import { RoomRouter } from '../cluster/roomRouter';
+import { RoomStore } from './roomStore';
+import { deserializeRooms, serializeRooms } from './serialization';
+
+const ROOMS_CHANNEL = 'spp:rooms';
+
+type RoomMessage =
+  | { origin: string; type: 'save'; rooms: string }
+  | { origin: string; type: 'delete'; roomId: string }
+  | { origin: string; type: 'sync-request' };
+
+// Keeps a copy of every room on each instance. Only the instance that owns a
+// room changes it (see RoomRouter), and it publishes a snapshot after each
+// change, which replaces the copy everywhere else. Snapshots of rooms this
+// instance owns are ignored, so nothing can overwrite the owner's state.
+export class ReplicatedRoomStore implements RoomStore {
+  private instanceId: string;
+
+  constructor(private inner: RoomStore, private bus: MessageBus, private router: RoomRouter) {
+    this.instanceId = router.instanceId;
+    this.bus.subscribe(ROOMS_CHANNEL, raw => this.handleMessage(JSON.parse(raw)));
+
+    // Ask the instances that are already running for their rooms
+    this.publish({ origin: this.instanceId, type: 'sync-request' });
+  }
+
+  get(roomId: string): Room | undefined {
+    return this.inner.get(roomId);
+  }
+
+  has(roomId: string): boolean {
+    return this.inner.has(roomId);
+  }
+
+  save(room: Room): void {
+    this.inner.save(room);
+    if (this.router.owns(room.id)) {
+      this.publish({ origin: this.instanceId, type: 'save', rooms: serializeRooms([room]) });
+    }
+  }
+
+  delete(roomId: string): void {
+    this.inner.delete(roomId);
+    if (this.router.owns(roomId)) {
+      this.publish({ origin: this.instanceId, type: 'delete', roomId });
+    }
+  }
+
+  values(): IterableIterator<Room> {
+    return this.inner.values();
+  }
+
+  flush(): void {
+    this.inner.flush();
+  }
+
+  private publish(message: RoomMessage): void {
+    this.bus.publish(ROOMS_CHANNEL, JSON.stringify(message));
+  }
+
+  private handleMessage(message: RoomMessage): void {
+    if (message.origin === this.instanceId) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'save':
+        deserializeRooms(message.rooms)
+          .filter(room => !this.router.owns(room.id))
+          .forEach(room => this.inner.save(room));
+        break;
+      case 'delete':
+        if (!this.router.owns(message.roomId)) {
+          this.inner.delete(message.roomId);
+        }
+        break;
+      case 'sync-request': {
+        // Each instance answers for the rooms it owns
+        const rooms = Array.from(this.inner.values()).filter(room => this.router.owns(room.id));
+        if (rooms.length > 0) {
+          this.publish({ origin: this.instanceId, type: 'save', rooms: serializeRooms(rooms) });
+        }
+        break;
+      }
+    }
+  }
+}
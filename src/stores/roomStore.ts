@@ -0,0 +1,13 @@
+import { Room } from '../types';
+
+// Storage behind RoomService. Rooms are mutated in place by the service, which
+// calls save() after every change so durable stores can write them out.
+export interface RoomStore {
+  get(roomId: string): Room | undefined;
+  has(roomId: string): boolean;
+  save(room: Room): void;
+  delete(roomId: string): void;
+  values(): IterableIterator<Room>;
+  // Write any pending changes before the process exits
+  flush(): void;
+}
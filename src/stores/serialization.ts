@@ -0,0 +1,39 @@
+import { Room } from '../types';
+
+interface TaggedValue {
+  __type: 'Date' | 'Map';
+  value: unknown;
+}
+
+const isTaggedValue = (value: unknown): value is TaggedValue =>
+  typeof value === 'object' && value !== null && '__type' in value && 'value' in value;
+
+// JSON.stringify calls Date.toJSON before the replacer runs, so look the
+// original value up on the holder object instead of using the argument
+function replacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const original = this[key];
+  if (original instanceof Date) {
+    return { __type: 'Date', value: original.toISOString() };
+  }
+  if (original instanceof Map) {
+    return { __type: 'Map', value: Array.from(original.entries()) };
+  }
+  return value;
+}
+
+const reviver = (_key: string, value: unknown): unknown => {
+  if (!isTaggedValue(value)) {
+    return value;
+  }
+  if (value.__type === 'Date') {
+    return new Date(value.value as string);
+  }
+  return new Map(value.value as [unknown, unknown][]);
+};
+
+export const serializeRooms = (rooms: Room[]): string => JSON.stringify({ version: 1, rooms }, replacer);
+
+export const deserializeRooms = (json: string): Room[] => {
+  const parsed = JSON.parse(json, reviver);
+  return Array.isArray(parsed?.rooms) ? parsed.rooms : [];
+};
@@ -1,39 +1,285 @@
+export type UserRole = 'facilitator' | 'co-facilitator' | 'voter' | 'observer';
+
 export interface User {
   id: string;
   name: string;
-  isAdmin: boolean;
+  role: UserRole;
   estimate?: string;
   hasVoted: boolean;
   joinedAt: Date;
   connected: boolean;
+  // When the user's last socket went away; cleared when they reconnect
+  disconnectedAt?: Date;
   socketId?: string;
 }
 
+export type StoryStatus = 'pending' | 'estimated' | 'skipped';
+
 export interface Story {
+  id: string;
   title: string;
   description: string;
+  // Issue key and link in the team's tracker, when imported from one
+  externalKey?: string;
+  link?: string;
+  status: StoryStatus;
+  // The estimate the team settled on, set by a facilitator after the reveal
+  finalEstimate?: string;
+  createdAt: Date;
+}
+
+export type NewStory = Pick<Story, 'title' | 'description' | 'externalKey' | 'link'>;
+
+export interface StoryImportRejection {
+  row: number;
+  reason: string;
+}
+
+export interface StoryImportRequest {
+  format?: 'csv' | 'json';
+  data?: string;
+  stories?: unknown[];
+}
+
+export interface StoryImportResult {
+  imported: Story[];
+  rejected: StoryImportRejection[];
+}
+
+export type PresetDeckType = 'fibonacci' | 'modified-fibonacci' | 't-shirt' | 'powers-of-two';
+
+export type DeckType = PresetDeckType | 'custom';
+
+export interface Deck {
+  type: DeckType;
+  cards: string[];
+}
+
+export interface DeckRequest {
+  type: DeckType;
+  cards?: string[];
 }
 
 export interface Room {
   id: string;
   name: string;
-  adminId: string;
+  facilitatorId: string | null;
   users: Map<string, User>;
-  story: Story;
+  stories: Story[];
+  currentStoryId: string | null;
+  deck: Deck;
+  settings: RoomSettings;
   votingRevealed: boolean;
   estimationStarted: boolean;
+  roundStartedAt: Date;
+  timer: RoomTimer | null;
+  history: EstimationRound[];
+  // Append-only record of who did what, kept for the life of the room
+  auditLog: AuditEntry[];
+  bans: Ban[];
+  webhooks: Webhook[];
+  // Salted hash of the room passcode; null when anyone with the room ID can join
+  passcodeHash: string | null;
+  invites: Invite[];
+  // Carried by view tokens; replacing it revokes every view token issued so far
+  viewTokenNonce: string;
   createdAt: Date;
   lastActivity: Date;
 }
 
+export interface RoomSettings {
+  // Reveal as soon as every connected participant who can vote has voted
+  autoRevealWhenAllVoted: boolean;
+}
+
+export interface RoomTimer {
+  id: string;
+  durationSeconds: number;
+  autoReveal: boolean;
+  startedAt: Date;
+  endsAt: Date;
+}
+
+export interface TimerState extends RoomTimer {
+  remainingSeconds: number;
+}
+
+export interface TimerStartRequest {
+  durationSeconds: number;
+  autoReveal?: boolean;
+}
+
+export interface Ban {
+  userId: string;
+  name: string;
+  bannedAt: Date;
+  bannedBy: string;
+}
+
+// 'disconnected' is used when the disconnect grace period runs out
+export type RemovalReason = 'kicked' | 'banned' | 'disconnected';
+
+// Why a room was closed while participants may still have been in it
+export type RoomClosedReason = 'expired' | 'ended' | 'closed-by-operator';
+
+// Facilitator-issued link that lets someone join without the passcode
+export interface Invite {
+  id: string;
+  tokenHash: string;
+  createdBy: string;
+  createdAt: Date;
+  expiresAt: Date | null;
+  maxUses: number | null;
+  uses: number;
+}
+
+export type InviteSummary = Omit<Invite, 'tokenHash'>;
+
+export interface InviteCreateRequest {
+  expiresInMinutes?: number;
+  maxUses?: number;
+}
+
+export interface ViewTokenCreateRequest {
+  expiresInMinutes?: number;
+}
+
+export interface PasscodeUpdateRequest {
+  passcode: string | null;
+}
+
+export type WebhookEvent = 'room.created' | 'votes.revealed' | 'story.estimated' | 'room.expired';
+
+// Room webhooks are stored on the room; server-wide ones come from the environment
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  secret: string;
+  roomId: string | null;
+  createdAt: Date;
+}
+
+export type WebhookSummary = Omit<Webhook, 'secret'>;
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  statusCode: number | null;
+  error: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export interface WebhookCreateRequest {
+  url: string;
+  events?: WebhookEvent[];
+}
+
+export interface RoundVote {
+  userId: string;
+  userName: string;
+  estimate: string;
+}
+
+export interface EstimationRound {
+  id: string;
+  story: Story | null;
+  votes: RoundVote[];
+  summary: VotingResults['summary'];
+  startedAt: Date;
+  revealedAt: Date;
+  // null when the round was revealed automatically
+  revealedBy: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+// How a command reached the server
+export type Transport = 'rest' | 'socket';
+
+// The participant behind a command and the transport they used
+export interface Actor {
+  userId: string;
+  transport: Transport;
+}
+
+export type AuditAction =
+  | 'room-created'
+  | 'user-joined'
+  | 'user-left'
+  | 'user-kicked'
+  | 'user-banned'
+  | 'user-removed'
+  | 'user-renamed'
+  | 'role-changed'
+  | 'facilitator-transferred'
+  | 'facilitator-claimed'
+  | 'facilitator-failover'
+  | 'facilitator-forced'
+  | 'story-updated'
+  | 'story-added'
+  | 'stories-imported'
+  | 'story-edited'
+  | 'stories-reordered'
+  | 'story-removed'
+  | 'story-skipped'
+  | 'story-selected'
+  | 'story-advanced'
+  | 'story-estimated'
+  | 'estimation-started'
+  | 'votes-revealed'
+  | 'voting-reset';
+
+export type AuditDetails = Record<string, string | number | boolean | null>;
+
+export interface AuditEntry {
+  at: Date;
+  action: AuditAction;
+  // null when the server acted by itself, e.g. an automatic reveal, or an
+  // operator stepped in
+  actor: {
+    id: string;
+    name: string;
+  } | null;
+  transport: Transport | 'system';
+  // The participant the action was aimed at, e.g. who was kicked
+  target?: {
+    id: string;
+    name: string;
+  };
+  details?: AuditDetails;
+}
+
 export interface VoteSubmission {
   userId: string;
   estimate: string;
 }
 
+export interface RoomCreateRequest {
+  roomName: string;
+  adminName: string;
+  deck?: DeckRequest;
+  passcode?: string;
+}
+
 export interface RoomJoinRequest {
   userName: string;
-  isAdmin?: boolean;
+  role?: UserRole;
+  passcode?: string;
+  inviteToken?: string;
+}
+
+export interface RenameRequest {
+  name: string;
+}
+
+export interface RoleUpdateRequest {
+  role: UserRole;
 }
 
 export interface StoryUpdateRequest {
@@ -41,38 +287,312 @@ export interface StoryUpdateRequest {
   description: string;
 }
 
+export interface FinalEstimateRequest {
+  estimate: string;
+}
+
+export interface StoryReorderRequest {
+  storyIds: string[];
+}
+
+export interface SessionClaims {
+  roomId: string;
+  userId: string;
+  iat: number;
+}
+
+// Lets a dashboard follow a room without being a participant
+export interface ViewClaims {
+  roomId: string;
+  scope: 'view';
+  // The room's viewTokenNonce when the token was issued
+  nonce: string;
+  iat: number;
+  // Expiry, in milliseconds since the epoch
+  exp: number;
+}
+
+// What the read-only room stream sends whenever the room changes
+export interface RoomSnapshot {
+  room: RoomSummary;
+  users: UserSummary[];
+  results: VotingResults | null;
+}
+
+// Everything held about a room apart from its secrets, for operators
+export interface OperatorRoomState {
+  room: RoomSummary;
+  facilitatorId: string | null;
+  users: User[];
+  bans: Ban[];
+  invites: InviteSummary[];
+  webhooks: WebhookSummary[];
+  history: EstimationRound[];
+  auditLog: AuditEntry[];
+  roundStartedAt: Date;
+}
+
+export interface OperatorRoomListQuery {
+  search?: string;
+  passcodeProtected?: boolean;
+  minUsers?: number;
+  idleMinutes?: number;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface OperatorRoomList {
+  rooms: RoomSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'md';
+
+export interface StoryReportRound {
+  startedAt: Date;
+  revealedAt: Date;
+  votes: RoundVote[];
+  statistics: VotingStatistics | null;
+}
+
+export interface StoryReport {
+  id: string;
+  title: string;
+  description: string;
+  externalKey: string | null;
+  link: string | null;
+  status: StoryStatus;
+  // The facilitator's final estimate, or the unanimous estimate of the last round
+  finalEstimate: string | null;
+  rounds: StoryReportRound[];
+}
+
+export interface SessionReport {
+  roomId: string;
+  roomName: string;
+  deck: Deck;
+  createdAt: Date;
+  exportedAt: Date;
+  stories: StoryReport[];
+}
+
+// Stable, machine-readable reasons a request can fail. Clients should match
+// on these rather than on the error messages, which may change.
+export type ErrorCode =
+  | 'invalid-request'
+  | 'unauthenticated'
+  | 'passcode-required'
+  | 'passcode-incorrect'
+  | 'invite-invalid'
+  | 'not-authorized'
+  | 'not-a-member'
+  | 'banned'
+  | 'room-not-found'
+  | 'user-not-found'
+  | 'story-not-found'
+  | 'invite-not-found'
+  | 'webhook-not-found'
+  | 'route-not-found'
+  | 'voting-closed'
+  | 'timer-not-running'
+  | 'facilitator-taken'
+  | 'limit-reached'
+  | 'rate-limited'
+  | 'internal-error';
+
+export interface Failure {
+  success: false;
+  code: ErrorCode;
+  error: string;
+}
+
+// What RoomService commands return: success, with any data merged in, or a typed failure
+export type Outcome<T extends object = object> = ({ success: true } & T) | Failure;
+
+export interface SocketError {
+  code: ErrorCode;
+  message: string;
+  details?: ValidationIssue[];
+}
+
+export interface ValidationIssue {
+  // Dotted path of the offending field, e.g. "deck.cards[2]"
+  path: string;
+  message: string;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: ErrorCode;
+  details?: ValidationIssue[];
 }
 
 export interface RoomSummary {
   id: string;
   name: string;
   userCount: number;
-  adminName: string;
-  story: Story;
+  facilitatorName: string | null;
+  story: Story | null;
+  stories: Story[];
+  currentStoryId: string | null;
+  deck: Deck;
+  settings: RoomSettings;
+  passcodeProtected: boolean;
   votingRevealed: boolean;
   estimationStarted: boolean;
+  timer: TimerState | null;
   createdAt: Date;
   lastActivity: Date;
 }
 
+export interface FacilitatorFailover {
+  previousFacilitatorId: string;
+  facilitatorId: string;
+}
+
 export interface UserSummary {
   id: string;
   name: string;
-  isAdmin: boolean;
+  role: UserRole;
   hasVoted: boolean;
   estimate?: string;
   connected: boolean;
 }
 
+export interface VoteDistributionEntry {
+  estimate: string;
+  count: number;
+  percentage: number;
+}
+
+export interface OutlierVoter {
+  userId: string;
+  name: string;
+  estimate: string;
+}
+
+export interface VotingStatistics {
+  distribution: VoteDistributionEntry[];
+  estimateVotes: number;
+  abstentions: number;
+  mean: number | null;
+  median: number | null;
+  mode: string[];
+  consensus: boolean;
+  nearConsensus: boolean;
+  spread: number | null;
+  outliers: {
+    highest: OutlierVoter[];
+    lowest: OutlierVoter[];
+  };
+}
+
 export interface VotingResults {
   revealed: boolean;
   votes: UserSummary[];
   summary: {
     totalVotes: number;
     uniqueEstimates: string[];
+    statistics: VotingStatistics | null;
   };
-}
\ No newline at end of file
+}
+// Socket.IO event contracts, shared by the server and its clients
+
+// Every client command accepts an optional acknowledgement callback as its
+// last argument. It is called exactly once, with the outcome of the command.
+export type SocketAckResponse<T = unknown> =
+  | { success: true; data?: T }
+  | { success: false; error: SocketError };
+
+export type SocketAck<T = unknown> = (response: SocketAckResponse<T>) => void;
+
+export interface TargetUserPayload {
+  targetUserId: string;
+}
+
+export interface StoryReferencePayload {
+  storyId: string;
+}
+
+export interface ClientToServerEvents {
+  'join-room': (ack?: SocketAck) => void;
+  'leave-room': (ack?: SocketAck) => void;
+  'start-estimation': (payload?: Partial<TimerStartRequest>, ack?: SocketAck) => void;
+  'submit-vote': (payload: { estimate: string }, ack?: SocketAck) => void;
+  'update-deck': (payload: { deck: DeckRequest }, ack?: SocketAck) => void;
+  'reveal-votes': (ack?: SocketAck) => void;
+  'update-settings': (payload: Partial<RoomSettings>, ack?: SocketAck) => void;
+  'nudge-stragglers': (ack?: SocketAck<{ userIds: string[] }>) => void;
+  'start-timer': (payload: TimerStartRequest, ack?: SocketAck) => void;
+  'stop-timer': (ack?: SocketAck) => void;
+  'reset-voting': (ack?: SocketAck) => void;
+  'update-story': (payload: StoryUpdateRequest, ack?: SocketAck) => void;
+  'add-story': (payload: StoryUpdateRequest, ack?: SocketAck<{ story: Story }>) => void;
+  'edit-story': (payload: StoryReferencePayload & StoryUpdateRequest, ack?: SocketAck) => void;
+  'reorder-stories': (payload: StoryReorderRequest, ack?: SocketAck) => void;
+  'remove-story': (payload: StoryReferencePayload, ack?: SocketAck) => void;
+  'skip-story': (payload: StoryReferencePayload, ack?: SocketAck) => void;
+  'set-final-estimate': (payload: StoryReferencePayload & FinalEstimateRequest, ack?: SocketAck) => void;
+  'select-story': (payload: StoryReferencePayload, ack?: SocketAck) => void;
+  'next-story': (ack?: SocketAck) => void;
+  'set-role': (payload: TargetUserPayload & RoleUpdateRequest, ack?: SocketAck) => void;
+  'transfer-facilitator': (payload: TargetUserPayload, ack?: SocketAck) => void;
+  'claim-facilitator': (ack?: SocketAck) => void;
+  'kick-user': (payload: TargetUserPayload, ack?: SocketAck) => void;
+  'ban-user': (payload: TargetUserPayload, ack?: SocketAck) => void;
+  'rename-user': (payload: TargetUserPayload & RenameRequest, ack?: SocketAck) => void;
+  'extend-room': (ack?: SocketAck<{ expiresAt: Date }>) => void;
+  'end-session': (ack?: SocketAck) => void;
+}
+
+export interface RoomUsersPayload {
+  room: RoomSummary | null;
+  users: UserSummary[];
+}
+
+export interface VotingStatePayload {
+  users: UserSummary[];
+  results: VotingResults | null;
+}
+
+export interface ServerToClientEvents {
+  'error': (error: SocketError) => void;
+  'room-state': (payload: VotingStatePayload & { room: Partial<RoomSummary> & Pick<RoomSummary, 'estimationStarted' | 'votingRevealed'> }) => void;
+  'user-joined': (payload: RoomUsersPayload & { user: User | undefined }) => void;
+  'user-left': (payload: RoomUsersPayload & { userId: string }) => void;
+  'user-disconnected': (payload: { userId: string; users: UserSummary[] }) => void;
+  'user-removed': (payload: RoomUsersPayload & { userId: string; reason: RemovalReason }) => void;
+  'removed-from-room': (payload: { roomId: string; reason: RemovalReason }) => void;
+  'room-closed': (payload: { roomId: string; reason: RoomClosedReason }) => void;
+  'room-expiring': (payload: { roomId: string; expiresAt: Date }) => void;
+  'room-extended': (payload: { roomId: string; expiresAt: Date }) => void;
+  'user-renamed': (payload: RoomUsersPayload & { userId: string; name: string }) => void;
+  'roles-updated': (payload: RoomUsersPayload & VotingStatePayload) => void;
+  'facilitator-failover': (payload: RoomUsersPayload & FacilitatorFailover) => void;
+  'estimation-started': (payload: VotingStatePayload) => void;
+  'vote-submitted': (payload: VotingStatePayload & { userId: string }) => void;
+  'votes-revealed': (payload: VotingResults) => void;
+  'voting-reset': (payload: VotingStatePayload) => void;
+  'deck-updated': (payload: { deck: Deck; room: RoomSummary | null }) => void;
+  'settings-updated': (payload: { room: RoomSummary | null }) => void;
+  'stragglers-nudged': (payload: { userIds: string[] }) => void;
+  'nudge': (payload: { roomId: string; from: string | null }) => void;
+  'timer-started': (payload: { timer: TimerState | null }) => void;
+  'timer-stopped': (payload: Record<string, never>) => void;
+  'timer-tick': (payload: { timerId: string; remainingSeconds: number; endsAt: Date }) => void;
+  'timer-ended': (payload: { timerId: string; autoRevealed: boolean }) => void;
+  'stories-updated': (payload: { stories: Story[]; currentStoryId: string | null; room: RoomSummary }) => void;
+  'story-updated': (payload: { story: Story | null; room: RoomSummary }) => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+
+export type ServerEventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0];
+
+export interface SocketData {
+  session: SessionClaims;
+}
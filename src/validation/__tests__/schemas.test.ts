@@ -0,0 +1,95 @@
+import { describeIssues, validate } from '../schema';
+import {
+  estimationStartSchema,
+  roomCreateSchema,
+  roomJoinSchema,
+  storyImportRowSchema,
+  storyReorderSchema,
+  storyUpdateSchema,
+  voteSchema
+} from '../schemas';
+
+const ID = '0b6f3c1e-8a51-4c1f-9d7a-2f4e6b8c0d12';
+
+describe('validation schemas', () => {
+  it('trims strings and drops keys the schema does not know', () => {
+    const result = validate(roomJoinSchema, { userName: '  Ann  ', role: 'voter', isAdmin: true });
+
+    expect(result).toEqual({ success: true, value: { userName: 'Ann', role: 'voter' } });
+  });
+
+  it('reports every issue with the path of its field', () => {
+    const result = validate(roomCreateSchema, { roomName: '', adminName: 42, deck: { type: 'dice' } });
+
+    expect(result).toEqual({
+      success: false,
+      issues: [
+        { path: 'roomName', message: 'roomName is required' },
+        { path: 'adminName', message: 'adminName must be a string' },
+        { path: 'deck.type', message: 'deck.type must be one of: fibonacci, modified-fibonacci, t-shirt, powers-of-two, custom' }
+      ]
+    });
+  });
+
+  it('summarises the issues in one line', () => {
+    const result = validate(roomJoinSchema, {});
+    if (result.success) {
+      throw new Error('expected the payload to be rejected');
+    }
+
+    expect(describeIssues(result.issues)).toBe('Invalid request: userName is required');
+  });
+
+  it('rejects a payload that is not an object', () => {
+    expect(validate(voteSchema, 'five')).toEqual({
+      success: false,
+      issues: [{ path: '', message: 'payload must be an object' }]
+    });
+  });
+
+  it('allows names in any script, with emoji, but not markup or control characters', () => {
+    expect(validate(roomJoinSchema, { userName: 'Zoë 李 🚀' })).toMatchObject({ success: true });
+    expect(validate(roomJoinSchema, { userName: '<script>' })).toMatchObject({ success: false });
+    expect(validate(roomJoinSchema, { userName: 'Ann\u0007' })).toMatchObject({ success: false });
+    expect(validate(roomJoinSchema, { userName: 'A'.repeat(51) })).toEqual({
+      success: false,
+      issues: [{ path: 'userName', message: 'userName must be at most 50 characters' }]
+    });
+  });
+
+  it('accepts an empty vote so it can be withdrawn', () => {
+    expect(validate(voteSchema, { estimate: '' })).toEqual({ success: true, value: { estimate: '' } });
+    expect(validate(voteSchema, { estimate: '5' })).toEqual({ success: true, value: { estimate: '5' } });
+    expect(validate(voteSchema, { estimate: 5 })).toMatchObject({ success: false });
+  });
+
+  it('keeps story titles to one line but lets descriptions span several', () => {
+    expect(validate(storyUpdateSchema, { title: 'Login\npage' })).toEqual({
+      success: false,
+      issues: [{ path: 'title', message: 'title must be a single line of text' }]
+    });
+    expect(validate(storyUpdateSchema, { title: 'Login page', description: 'Line one\nLine two' })).toMatchObject({ success: true });
+    expect(validate(storyUpdateSchema, { title: 'Login page', description: 'Bell\u0007' })).toMatchObject({ success: false });
+  });
+
+  it('checks imported rows like stories added one at a time', () => {
+    expect(validate(storyImportRowSchema, { title: 'Login page', externalKey: 'PROJ-1', link: 'https://example.com/PROJ-1' })).toMatchObject({ success: true });
+    expect(validate(storyImportRowSchema, { title: 'Login\u0000page' })).toMatchObject({ success: false });
+    expect(validate(storyImportRowSchema, { title: 'Login page', link: 'javascript:alert(1)' })).toEqual({
+      success: false,
+      issues: [{ path: 'link', message: 'link must be an http or https URL' }]
+    });
+  });
+
+  it('rejects duplicate IDs when reordering stories', () => {
+    expect(validate(storyReorderSchema, { storyIds: [ID, ID] })).toEqual({
+      success: false,
+      issues: [{ path: 'storyIds', message: 'storyIds must not contain duplicates' }]
+    });
+  });
+
+  it('lets an estimation start without a payload', () => {
+    expect(validate(estimationStartSchema, undefined)).toEqual({ success: true, value: undefined });
+    expect(validate(estimationStartSchema, { durationSeconds: 1 })).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,22 @@
+import { Schema, describeIssues, validate } from './schema';
+import { AppSocket, SocketReply, findAck, replyTo } from '../services/socketCommands';
+
+export * from './schema';
+export * from './schemas';
+
+// Wrap a socket handler so it only runs with a payload that matches the
+// schema; anything else is answered with the validation issues. Commands with
+// an optional payload may be sent with just the ack callback.
+export const withPayload = <T>(socket: AppSocket, schema: Schema<T>, handler: (data: T, reply: SocketReply) => void | Promise<void>) =>
+  (...args: unknown[]): void => {
+    const data = typeof args[0] === 'function' ? undefined : args[0];
+
+    const reply = replyTo(socket, findAck(args));
+    const result = validate(schema, data);
+    if (!result.success) {
+      reply.fail({ code: 'invalid-request', message: describeIssues(result.issues), details: result.issues });
+      return;
+    }
+
+    void handler(result.value, reply);
+  };
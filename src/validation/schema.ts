@@ -0,0 +1,189 @@
+// A small declarative schema language for request bodies and socket payloads.
+// Each schema checks a value, collects issues with the path of the offending
+// field, and returns the cleaned value (strings trimmed, unknown keys dropped).
+
+import { ValidationIssue } from '../types';
+
+export interface Schema<T> {
+  optional: boolean;
+  check(value: unknown, path: string, issues: ValidationIssue[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: ValidationIssue[] };
+
+const describe = (path: string): string => path || 'payload';
+
+const fail = <T>(issues: ValidationIssue[], path: string, message: string): T => {
+  issues.push({ path, message: `${describe(path)} ${message}` });
+  return undefined as T;
+};
+
+interface StringOptions {
+  min?: number;
+  max?: number;
+  // Characters every value must be made of, with a description for the error
+  pattern?: RegExp;
+  patternMessage?: string;
+}
+
+export const string = (options: StringOptions = {}): Schema<string> => ({
+  optional: false,
+  check(value, path, issues) {
+    if (typeof value !== 'string') {
+      return fail(issues, path, 'must be a string');
+    }
+
+    const trimmed = value.trim();
+    const { min = 1, max, pattern, patternMessage } = options;
+    if (trimmed.length < min) {
+      return fail(issues, path, min === 1 ? 'is required' : `must be at least ${min} characters`);
+    }
+    if (max !== undefined && trimmed.length > max) {
+      return fail(issues, path, `must be at most ${max} characters`);
+    }
+    if (pattern && !pattern.test(trimmed)) {
+      return fail(issues, path, patternMessage || 'contains characters that are not allowed');
+    }
+    return trimmed;
+  }
+});
+
+interface NumberOptions {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export const number = (options: NumberOptions = {}): Schema<number> => ({
+  optional: false,
+  check(value, path, issues) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return fail(issues, path, 'must be a number');
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      return fail(issues, path, 'must be a whole number');
+    }
+    if (options.min !== undefined && value < options.min) {
+      return fail(issues, path, `must be at least ${options.min}`);
+    }
+    if (options.max !== undefined && value > options.max) {
+      return fail(issues, path, `must be at most ${options.max}`);
+    }
+    return value;
+  }
+});
+
+export const boolean = (): Schema<boolean> => ({
+  optional: false,
+  check(value, path, issues) {
+    return typeof value === 'boolean' ? value : fail(issues, path, 'must be true or false');
+  }
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  optional: false,
+  check(value, path, issues) {
+    return values.includes(value as T) ? (value as T) : fail(issues, path, `must be one of: ${values.join(', ')}`);
+  }
+});
+
+export const array = <T>(item: Schema<T>, options: { min?: number; max?: number; unique?: boolean } = {}): Schema<T[]> => ({
+  optional: false,
+  check(value, path, issues) {
+    if (!Array.isArray(value)) {
+      return fail(issues, path, 'must be a list');
+    }
+    if (options.min !== undefined && value.length < options.min) {
+      return fail(issues, path, `must have at least ${options.min} item${options.min === 1 ? '' : 's'}`);
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      return fail(issues, path, `must have at most ${options.max} items`);
+    }
+
+    const items = value.map((entry, index) => item.check(entry, `${path}[${index}]`, issues));
+    if (options.unique && new Set(items).size !== items.length) {
+      return fail(issues, path, 'must not contain duplicates');
+    }
+    return items;
+  }
+});
+
+// Query string values arrive as text, so read numbers and flags from it
+// before checking them like any other value
+const NUMERIC_TEXT = /^-?\d+(\.\d+)?$/;
+
+export const queryNumber = (options: NumberOptions = {}): Schema<number> => {
+  const numeric = number(options);
+  return {
+    optional: false,
+    check: (value, path, issues) =>
+      numeric.check(typeof value === 'string' && NUMERIC_TEXT.test(value) ? Number(value) : value, path, issues)
+  };
+};
+
+export const queryBoolean = (): Schema<boolean> => {
+  const flag = boolean();
+  return {
+    optional: false,
+    check: (value, path, issues) =>
+      flag.check(value === 'true' ? true : value === 'false' ? false : value, path, issues)
+  };
+};
+
+type Shape = Record<string, Schema<unknown>>;
+
+export const object = <S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> => ({
+  optional: false,
+  check(value, path, issues) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(issues, path, 'must be an object');
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    Object.keys(shape).forEach(key => {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const field = shape[key];
+
+      if (input[key] === undefined) {
+        if (!field.optional) {
+          fail(issues, fieldPath, 'is required');
+        }
+        return;
+      }
+
+      result[key] = field.check(input[key], fieldPath, issues);
+    });
+
+    return result as { [K in keyof S]: Infer<S[K]> };
+  }
+});
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  optional: true,
+  check: (value, path, issues) => (value === undefined ? undefined : schema.check(value, path, issues))
+});
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  optional: schema.optional,
+  check: (value, path, issues) => (value === null ? null : schema.check(value, path, issues))
+});
+
+export const validate = <T>(schema: Schema<T>, value: unknown): ValidationResult<T> => {
+  const issues: ValidationIssue[] = [];
+
+  if (value === undefined && schema.optional) {
+    return { success: true, value: undefined as T };
+  }
+
+  const result = schema.check(value, '', issues);
+  return issues.length > 0 ? { success: false, issues } : { success: true, value: result };
+};
+
+// One-line summary used as the error message next to the detailed issues
+export const describeIssues = (issues: ValidationIssue[]): string =>
+  `Invalid request: ${issues.map(issue => issue.message).join('; ')}`;
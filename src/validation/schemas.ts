@@ -0,0 +1,156 @@
+import { DeckType } from '../types';
+import { ASSIGNABLE_ROLES, JOINABLE_ROLES } from '../services/roles';
+import { WEBHOOK_EVENTS } from '../services/webhookService';
+import { array, boolean, nullable, number, object, oneOf, optional, queryBoolean, queryNumber, string } from './schema';
+
+// Schemas for every REST body and socket payload. The services still enforce
+// the rules that depend on room state; these cover shape, length and characters.
+
+// Letters, marks, numbers, punctuation, spaces and emoji - no control
+// characters or symbols such as < and >
+const NAME_CHARACTERS = /^(?:[\p{L}\p{M}\p{N}\p{P}\p{Zs}\p{Extended_Pictographic}]|\u200d|\ufe0f)+$/u;
+const SINGLE_LINE = /^[^\p{Cc}]*$/u;
+const MULTI_LINE = /^(?:[^\p{Cc}]|[\t\r\n])*$/u;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DECK_TYPES: DeckType[] = ['fibonacci', 'modified-fibonacci', 't-shirt', 'powers-of-two', 'custom'];
+
+const personName = () => string({ max: 50, pattern: NAME_CHARACTERS, patternMessage: 'may only contain letters, numbers, spaces, punctuation and emoji' });
+const roomName = () => string({ max: 100, pattern: NAME_CHARACTERS, patternMessage: 'may only contain letters, numbers, spaces, punctuation and emoji' });
+const id = () => string({ max: 36, pattern: UUID, patternMessage: 'must be an ID' });
+const storyTitle = () => string({ max: 200, pattern: SINGLE_LINE, patternMessage: 'must be a single line of text' });
+const storyDescription = () => string({ min: 0, max: 5000, pattern: MULTI_LINE, patternMessage: 'contains control characters' });
+const card = () => string({ max: 10, pattern: SINGLE_LINE, patternMessage: 'must be a single line of text' });
+// A card, or an empty string to withdraw the vote
+const vote = () => string({ min: 0, max: 10, pattern: SINGLE_LINE, patternMessage: 'must be a single line of text' });
+const passcode = () => string({ min: 4, max: 64, pattern: SINGLE_LINE, patternMessage: 'must be a single line of text' });
+const timerSeconds = () => number({ integer: true, min: 5, max: 60 * 60 });
+
+const deck = object({
+  type: oneOf(DECK_TYPES),
+  cards: optional(array(card(), { max: 30 }))
+});
+
+export const roomCreateSchema = object({
+  roomName: roomName(),
+  adminName: personName(),
+  deck: optional(deck),
+  passcode: optional(passcode())
+});
+
+export const roomJoinSchema = object({
+  userName: personName(),
+  role: optional(oneOf(JOINABLE_ROLES)),
+  // Not checked against the passcode rules, so a wrong one is reported as incorrect
+  passcode: optional(string({ max: 64 })),
+  inviteToken: optional(string({ max: 100 }))
+});
+
+export const renameSchema = object({
+  name: personName()
+});
+
+export const roleUpdateSchema = object({
+  role: oneOf(ASSIGNABLE_ROLES)
+});
+
+export const targetUserSchema = object({
+  targetUserId: id()
+});
+
+export const roleAssignmentSchema = object({
+  targetUserId: id(),
+  role: oneOf(ASSIGNABLE_ROLES)
+});
+
+export const userRenameSchema = object({
+  targetUserId: id(),
+  name: personName()
+});
+
+export const storyUpdateSchema = object({
+  title: storyTitle(),
+  description: optional(storyDescription())
+});
+
+export const storyEditSchema = object({
+  storyId: id(),
+  title: storyTitle(),
+  description: optional(storyDescription())
+});
+
+// A row of a bulk import once its columns have been mapped to story fields
+export const storyImportRowSchema = object({
+  title: storyTitle(),
+  description: optional(storyDescription()),
+  externalKey: optional(string({ max: 100, pattern: SINGLE_LINE, patternMessage: 'must be a single line of text' })),
+  link: optional(string({ max: 2000, pattern: /^https?:\/\/\S+$/i, patternMessage: 'must be an http or https URL' }))
+});
+
+export const storyReferenceSchema = object({
+  storyId: id()
+});
+
+export const storyReorderSchema = object({
+  storyIds: array(id(), { max: 1000, unique: true })
+});
+
+export const finalEstimateSchema = object({
+  estimate: card()
+});
+
+export const storyFinalEstimateSchema = object({
+  storyId: id(),
+  estimate: card()
+});
+
+export const voteSchema = object({
+  estimate: vote()
+});
+
+export const deckUpdateSchema = object({
+  deck
+});
+
+export const settingsSchema = object({
+  autoRevealWhenAllVoted: optional(boolean())
+});
+
+export const timerStartSchema = object({
+  durationSeconds: timerSeconds(),
+  autoReveal: optional(boolean())
+});
+
+// The countdown is optional when starting an estimation
+export const estimationStartSchema = optional(object({
+  durationSeconds: optional(timerSeconds()),
+  autoReveal: optional(boolean())
+}));
+
+export const passcodeUpdateSchema = object({
+  passcode: nullable(passcode())
+});
+
+export const inviteCreateSchema = object({
+  expiresInMinutes: optional(number({ integer: true, min: 1, max: 30 * 24 * 60 })),
+  maxUses: optional(number({ integer: true, min: 1, max: 1000 }))
+});
+
+export const viewTokenCreateSchema = object({
+  expiresInMinutes: optional(number({ integer: true, min: 1, max: 30 * 24 * 60 }))
+});
+
+export const webhookCreateSchema = object({
+  url: string({ max: 2000, pattern: /^https?:\/\/\S+$/i, patternMessage: 'must be an http or https URL' }),
+  events: optional(array(oneOf(WEBHOOK_EVENTS), { min: 1, unique: true }))
+});
+
+// Query string of the operator room list
+export const operatorRoomListSchema = object({
+  search: optional(string({ max: 100, pattern: SINGLE_LINE, patternMessage: 'must be a single line of text' })),
+  passcodeProtected: optional(queryBoolean()),
+  minUsers: optional(queryNumber({ integer: true, min: 0 })),
+  idleMinutes: optional(queryNumber({ integer: true, min: 0 })),
+  page: optional(queryNumber({ integer: true, min: 1 })),
+  pageSize: optional(queryNumber({ integer: true, min: 1, max: 100 }))
+});